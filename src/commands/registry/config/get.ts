@@ -0,0 +1,44 @@
+import { Args } from '@oclif/core';
+import { SfCommand } from '@salesforce/sf-plugins-core';
+import { resolveRegistry } from '../../../utils/profiles.js';
+import { serverFlag } from '../../../utils/flags.js';
+import { ResolvedRegistry } from '../../../utils/types.js';
+
+export type RegistryConfigGetResult = {
+  profile?: string;
+  url: string;
+  source: ResolvedRegistry['source'];
+  authenticated: boolean;
+};
+
+export default class RegistryConfigGet extends SfCommand<RegistryConfigGetResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary = 'Affiche le registre utilisé (ou un profil donné) et son origine.';
+  public static readonly examples = ['$ sf registry config get', '$ sf registry config get staging'];
+
+  public static readonly args = {
+    name: Args.string({ description: 'Nom du profil (par défaut : registre résolu)' }),
+  };
+
+  public static readonly flags = {
+    server: serverFlag,
+  };
+
+  public async run(): Promise<RegistryConfigGetResult> {
+    const { args, flags } = await this.parse(RegistryConfigGet);
+    const registry = await resolveRegistry(args.name ?? flags.server).catch((error: Error) =>
+      this.error(`❌ ${error.message}`)
+    );
+    const result = {
+      profile: registry.profile,
+      url: registry.url,
+      source: registry.source,
+      authenticated: Boolean(registry.token),
+    };
+    this.log(`Profil        : ${result.profile ?? '—'}`);
+    this.log(`URL           : ${result.url}`);
+    this.log(`Origine       : ${result.source}`);
+    this.log(`Authentifié   : ${result.authenticated ? 'oui' : 'non'}`);
+    return result;
+  }
+}
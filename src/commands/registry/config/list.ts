@@ -0,0 +1,42 @@
+import { SfCommand } from '@salesforce/sf-plugins-core';
+import kleur from 'kleur';
+import Table from 'cli-table3';
+import { readRegistryConfig } from '../../../utils/profiles.js';
+
+export type RegistryConfigListResult = Array<{
+  profile: string;
+  url: string;
+  current: boolean;
+  authenticated: boolean;
+}>;
+
+export default class RegistryConfigList extends SfCommand<RegistryConfigListResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary = 'Liste les profils de registre configurés.';
+  public static readonly examples = ['$ sf registry config list'];
+
+  public async run(): Promise<RegistryConfigListResult> {
+    const config = await readRegistryConfig();
+    const profiles = Object.entries(config.profiles).map(([profile, { url, token }]) => ({
+      profile,
+      url,
+      current: profile === config.current,
+      authenticated: Boolean(token),
+    }));
+
+    const table = new Table({
+      head: [kleur.bold('Profil'), kleur.bold('URL'), kleur.bold('Actif'), kleur.bold('Authentifié')],
+      style: { head: [], border: [] },
+    });
+    for (const p of profiles) {
+      table.push([
+        p.current ? kleur.cyan().bold(p.profile) : p.profile,
+        p.url,
+        p.current ? '✔' : '',
+        p.authenticated ? '✔' : '',
+      ]);
+    }
+    this.log(table.toString());
+    return profiles;
+  }
+}
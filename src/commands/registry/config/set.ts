@@ -0,0 +1,51 @@
+import { Args } from '@oclif/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { normalizeServerUrl, readRegistryConfig, writeRegistryConfig } from '../../../utils/profiles.js';
+
+export type RegistryConfigSetResult = {
+  profile: string;
+  url: string;
+  current: boolean;
+};
+
+export default class RegistryConfigSet extends SfCommand<RegistryConfigSetResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary = 'Crée ou met à jour un profil de registre nommé (URL du serveur).';
+  public static readonly examples = [
+    '$ sf registry config set staging https://registry-staging.example.com',
+    '$ sf registry config set internal https://registry.internal.example.com --use',
+  ];
+
+  public static readonly args = {
+    name: Args.string({ required: true, description: 'Nom du profil' }),
+    url: Args.string({ required: true, description: 'URL du serveur du registre' }),
+  };
+
+  public static readonly flags = {
+    use: Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: 'Définit ce profil comme profil actif.',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<RegistryConfigSetResult> {
+    const { args, flags } = await this.parse(RegistryConfigSet);
+    let url: string;
+    try {
+      url = normalizeServerUrl(new URL(args.url).toString());
+    } catch {
+      this.error(`❌ URL invalide : ${args.url}`);
+    }
+
+    const config = await readRegistryConfig();
+    const existing = config.profiles[args.name];
+    // Un token n'est valable que pour le serveur qui l'a émis : changer d'URL l'invalide
+    config.profiles[args.name] = existing && normalizeServerUrl(existing.url) === url ? existing : { url };
+    if (flags.use) config.current = args.name;
+    await writeRegistryConfig(config);
+
+    this.log(`✅ Profil "${args.name}" enregistré (${url})${flags.use ? ' et défini comme profil actif' : ''}.`);
+    return { profile: args.name, url, current: config.current === args.name };
+  }
+}
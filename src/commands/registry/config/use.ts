@@ -0,0 +1,33 @@
+import { Args } from '@oclif/core';
+import { SfCommand } from '@salesforce/sf-plugins-core';
+import { readRegistryConfig, writeRegistryConfig } from '../../../utils/profiles.js';
+
+export type RegistryConfigUseResult = {
+  profile: string;
+  url: string;
+};
+
+export default class RegistryConfigUse extends SfCommand<RegistryConfigUseResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary = 'Définit le profil de registre actif.';
+  public static readonly examples = ['$ sf registry config use staging'];
+
+  public static readonly args = {
+    name: Args.string({ required: true, description: 'Nom du profil' }),
+  };
+
+  public async run(): Promise<RegistryConfigUseResult> {
+    const { args } = await this.parse(RegistryConfigUse);
+    const config = await readRegistryConfig();
+    const profile = config.profiles[args.name];
+    if (!profile) {
+      this.error(
+        `❌ Profil "${args.name}" introuvable. Profils disponibles : ${Object.keys(config.profiles).join(', ')}`
+      );
+    }
+    config.current = args.name;
+    await writeRegistryConfig(config);
+    this.log(`✅ Profil actif : "${args.name}" (${profile.url})`);
+    return { profile: args.name, url: profile.url };
+  }
+}
@@ -3,44 +3,84 @@ import fs from 'node:fs';
 import { execa } from 'execa';
 import { SfCommand } from '@salesforce/sf-plugins-core';
 import { findProjectRoot, getCleanTypeLabel, fileExistsAndIsFile } from '../../utils/functions.js';
-import { promptComponentOrClass, promptValidNameCommandCreate } from '../../utils/prompts.js';
-import { FILENAMES, PATHS } from '../../utils/constants.js';
+import {
+  canPrompt,
+  resolveOrPrompt,
+  promptComponentOrClass,
+  promptTargetDirectory,
+  promptValidNameCommandCreate,
+} from '../../utils/prompts.js';
+import { FILENAMES, ITEM_TYPE_INFO } from '../../utils/constants.js';
+import { createTypeFlag, nameFlag, targetDirFlag, noPromptFlag } from '../../utils/flags.js';
+import { getDefaultPackageDirectory, readPackageDirectories } from '../../utils/project.js';
+import { ItemType } from '../../utils/types.js';
 
-export default class RegistryTemplate extends SfCommand<void> {
+export type RegistryCreateResult = {
+  type: ItemType;
+  name: string;
+  path: string;
+};
+
+export default class RegistryTemplate extends SfCommand<RegistryCreateResult> {
   // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
   public static readonly summary = 'Crée un squelette composant LWC ou classe Apex avec meta JSON à compléter';
-  public static readonly examples = ['$ sf registry create'];
+  public static readonly examples = [
+    '$ sf registry create',
+    '$ sf registry create --type class --name MyUtil --no-prompt',
+    '$ sf registry create --type component --name myButton --target-dir packages/ui/main/default',
+  ];
+
+  public static readonly flags = {
+    type: createTypeFlag,
+    name: nameFlag,
+    'target-dir': targetDirFlag,
+    'no-prompt': noPromptFlag,
+  };
 
-  public async run(): Promise<void> {
+  public async run(): Promise<RegistryCreateResult> {
     try {
-      const type = await promptComponentOrClass('Quel type de template veux-tu créer ?');
+      const { flags } = await this.parse(RegistryTemplate);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const type = await resolveOrPrompt(flags.type, {
+        flag: 'type',
+        noPrompt,
+        prompt: () => promptComponentOrClass('Quel type de template veux-tu créer ?'),
+      });
       const cleanType = getCleanTypeLabel(type, false);
-      const name = await promptValidNameCommandCreate(`Nom du ${cleanType}`);
-      const folder = await this.getTargetFolder(type, name);
+      const name = await resolveOrPrompt(flags.name, {
+        flag: 'name',
+        noPrompt,
+        prompt: () => promptValidNameCommandCreate(`Nom du ${cleanType}`),
+      });
+      if (!/^[a-zA-Z0-9_]+$/.test(name)) {
+        this.error('Nom invalide (alphanumérique uniquement)');
+      }
+      const targetDir = flags['target-dir'] ?? (await resolveTargetDirectory(noPrompt));
+      const folder = await this.getTargetFolder(type, name, path.resolve(targetDir));
       await this.createRegistryMetaJson(folder);
       this.log(`✅ ${getCleanTypeLabel(type, false)} "${name}" créé avec succès.`);
+      return { type, name, path: folder };
     } catch (error) {
       this.error(`❌ Erreur inattendue: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async getTargetFolder(type: 'component' | 'class', name: string): Promise<string> {
+  private async getTargetFolder(type: 'component' | 'class', name: string, targetDir: string): Promise<string> {
     if (type === 'component') {
-      return this.createLwcComponent(name);
+      return this.createLwcComponent(name, targetDir);
     }
-    return this.createApexClass(name);
+    return this.createApexClass(name, targetDir);
   }
 
-  private async createLwcComponent(name: string): Promise<string> {
-    const projectRoot = findProjectRoot(process.cwd());
-    const lwcParent = path.join(projectRoot, PATHS.LWC);
+  private async createLwcComponent(name: string, targetDir: string): Promise<string> {
+    const lwcParent = path.join(targetDir, ITEM_TYPE_INFO.component.folder);
     const folder = path.join(lwcParent, name);
 
     await fs.promises.mkdir(lwcParent, { recursive: true });
     this.log('⏳ Création du composant LWC...');
     await execa('sf', ['lightning', 'component', 'generate', '--type', 'lwc', '--name', name], {
       cwd: lwcParent,
-      stdio: 'inherit', 
+      stdio: this.jsonEnabled() ? 'ignore' : 'inherit',
     });
 
     const jsFile = path.join(folder, `${name}.js`);
@@ -52,16 +92,15 @@ export default class RegistryTemplate extends SfCommand<void> {
     return folder;
   }
 
-  private async createApexClass(name: string): Promise<string> {
-    const projectRoot = findProjectRoot(process.cwd());
-    const classesParent = path.join(projectRoot, PATHS.APEX);
+  private async createApexClass(name: string, targetDir: string): Promise<string> {
+    const classesParent = path.join(targetDir, ITEM_TYPE_INFO.class.folder);
     const folder = path.join(classesParent, name);
 
     await fs.promises.mkdir(classesParent, { recursive: true });
     this.log('⏳ Création de la classe Apex...');
     await execa('sf', ['apex', 'class', 'generate', '--name', name], {
       cwd: classesParent,
-      stdio: 'inherit',
+      stdio: this.jsonEnabled() ? 'ignore' : 'inherit',
     });
 
     await fs.promises.mkdir(folder, { recursive: true });
@@ -90,3 +129,14 @@ export default class RegistryTemplate extends SfCommand<void> {
     }
   }
 }
+
+/**
+ * Dossier de packages où créer le template : le dossier par défaut de sfdx-project.json, au choix
+ * de l'utilisateur quand le projet en déclare plusieurs.
+ */
+async function resolveTargetDirectory(noPrompt: boolean): Promise<string> {
+  const projectRoot = findProjectRoot(process.cwd());
+  const packageDirs = await readPackageDirectories(projectRoot);
+  if (packageDirs.length > 1 && canPrompt(noPrompt)) return promptTargetDirectory(packageDirs, projectRoot);
+  return getDefaultPackageDirectory(packageDirs).targetDir;
+}
@@ -1,5 +1,4 @@
-import { SfCommand } from '@salesforce/sf-plugins-core';
-import { SERVER_URL } from '../../utils/constants.js';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
 import {
   fetchCatalog,
   getCleanTypeLabel,
@@ -8,30 +7,74 @@ import {
   authedFetch,
 } from '../../utils/functions.js';
 import {
-  promptComponentOrClass,
+  canPrompt,
+  resolveOrPrompt,
+  promptItemType,
   promptSelectName,
   promptVersionToDelete,
   promptDeleteConfirmation,
 } from '../../utils/prompts.js';
 import { AuthError } from '../../utils/errors.js';
+import { typeFlag, nameFlag, versionFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { ComponentOrClassVersion, ItemType, ResolvedRegistry } from '../../utils/types.js';
 
-export default class RegistryDelete extends SfCommand<void> {
+export type RegistryDeleteResult = {
+  type: ItemType;
+  name: string;
+  version: string | null;
+  deleted: boolean;
+  message?: string;
+};
+
+export default class RegistryDelete extends SfCommand<RegistryDeleteResult> {
   // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
   public static readonly summary = 'Supprime un composant ou une classe du registre';
-  public static readonly examples = ['$ sf registry delete'];
+  public static readonly examples = [
+    '$ sf registry delete',
+    '$ sf registry delete --type component --name myButton --version 1.0.0 --no-prompt',
+    '$ sf registry delete --type class --name MyUtil --all --no-prompt',
+  ];
+
+  public static readonly flags = {
+    type: typeFlag,
+    name: nameFlag,
+    version: versionFlag,
+    all: Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: "Supprime toutes les versions de l'élément.",
+      default: false,
+      exclusive: ['version'],
+    }),
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
 
-  public async run(): Promise<void> {
+  public async run(): Promise<RegistryDeleteResult> {
     try {
-      const type = await promptComponentOrClass("Quel type d'élément veux-tu supprimer ?");
-      const catalog = await fetchCatalog.call(this, SERVER_URL);
+      const { flags } = await this.parse(RegistryDelete);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const type = await resolveOrPrompt(flags.type, {
+        flag: 'type',
+        noPrompt,
+        prompt: () => promptItemType("Quel type d'élément veux-tu supprimer ?"),
+      });
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
       const cleanType = getCleanTypeLabel(type);
       const items = getNonEmptyItemsOrError.call(this, catalog, type, cleanType, 'à supprimer');
-      const name = await promptSelectName(`Quel ${cleanType} veux-tu supprimer ?`,items.map((e) => e.name));
+      const name = await resolveOrPrompt(flags.name, {
+        flag: 'name',
+        noPrompt,
+        prompt: () => promptSelectName(`Quel ${cleanType} veux-tu supprimer ?`, items.map((e) => e.name)),
+      });
       const selectedEntry = findEntryOrError.call(this, items, name);
-      const version = await promptVersionToDelete.call(this, selectedEntry.versions);
-      const ok = await promptDeleteConfirmation({ type, name, version });
-      if (!ok) return;
-      await this.deleteFromRegistry(SERVER_URL, type, name, version);
+      const version = await this.resolveVersion(selectedEntry.versions, flags.version, flags.all, noPrompt);
+      // Les flags explicites valent confirmation : on ne demande que si un prompt est possible.
+      const ok = canPrompt(noPrompt) ? await promptDeleteConfirmation({ type, name, version }) : true;
+      if (!ok) return { type, name, version, deleted: false };
+      const message = await this.deleteFromRegistry(registry, type, name, version);
+      return { type, name, version, deleted: true, message };
     } catch (error) {
       if (error instanceof AuthError) {
         this.error(error.message);
@@ -39,20 +82,41 @@ export default class RegistryDelete extends SfCommand<void> {
       this.error(`❌ Erreur inattendue: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  private async resolveVersion(
+    versions: ComponentOrClassVersion[],
+    version: string | undefined,
+    all: boolean,
+    noPrompt: boolean
+  ): Promise<string | null> {
+    if (all) return null;
+    if (version) {
+      if (!versions.some((v) => v.version === version)) {
+        this.error(`Version "${version}" introuvable.`);
+      }
+      return version;
+    }
+    if (!canPrompt(noPrompt)) {
+      this.error('Valeur manquante : utilisez --version ou --all (aucun prompt possible en mode non interactif).');
+    }
+    return promptVersionToDelete.call(this, versions);
+  }
+
   private async deleteFromRegistry(
-    serverUrl: string,
+    registry: ResolvedRegistry,
     type: string,
     name: string,
     version?: string | null
-  ): Promise<void> {
-    let url = `${serverUrl}/delete/${type}/${name}`;
-    if (version) url += `/${version}`;
-    const delRes = await authedFetch.call(this,url, { method: 'DELETE' });
+  ): Promise<string> {
+    let route = `/delete/${type}/${name}`;
+    if (version) route += `/${version}`;
+    const delRes = await authedFetch(registry, route, { method: 'DELETE' });
     const result = (await delRes.json()) as { error?: string; message?: string };
     if (!delRes.ok) {
       this.error(result.error ?? 'Erreur lors de la suppression.');
-    } else {
-      this.log(result.message ?? 'Suppression réussie.');
     }
+    const message = result.message ?? 'Suppression réussie.';
+    this.log(message);
+    return message;
   }
 }
@@ -1,94 +1,324 @@
-import { createReadStream, createWriteStream } from 'node:fs';
+import { createWriteStream } from 'node:fs';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import { finished } from 'node:stream/promises';
 import archiver from 'archiver';
-import { SfCommand } from '@salesforce/sf-plugins-core';
-import { SERVER_URL, FORBIDDEN_EXTENSIONS, PATHS, FILENAMES, registryMetaFileSchema } from '../../utils/constants.js';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import kleur from 'kleur';
+import { FORBIDDEN_EXTENSIONS, FILENAMES, registryMetaFileSchema } from '../../utils/constants.js';
 import {
-  promptComponentOrClass,
+  resolveOrPrompt,
+  promptItemType,
   promptSelectName,
   promptVersionToEnter,
   promptDescriptionToEnter,
 } from '../../utils/prompts.js';
-import { findProjectRoot, getCleanTypeLabel, fileExistsAndIsFile, authedFetch } from '../../utils/functions.js';
+import {
+  findProjectRoot,
+  getCleanTypeLabel,
+  fileExistsAndIsFile,
+  authedFetch,
+  fetchCatalog,
+  formatSize,
+} from '../../utils/functions.js';
 import { AuthError } from '../../utils/errors.js';
-import { ItemType, RegistryDep } from '../../utils/types.js';
-
-
-export default class RegistryDeploy extends SfCommand<void> {
+import { BumpType, ItemType, Registry, RegistryDep, RegistryMetaFile, ResolvedRegistry } from '../../utils/types.js';
+import { bumpVersion, compareVersions, getLatestVersion } from '../../utils/versions.js';
+import {
+  typeFlag,
+  nameFlag,
+  versionFlag,
+  bumpFlag,
+  descriptionFlag,
+  outputFlag,
+  serverFlag,
+  noPromptFlag,
+} from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { findStaticResource, getStaticResourceFiles } from '../../utils/staticresources.js';
+import { mapSequentially } from '../../utils/sequential.js';
+import {
+  analyzeItem,
+  findCoveringTests,
+  getItemDirectory,
+  getItemFiles,
+  ItemFile,
+  ProjectIndex,
+  readItemDetails,
+  scanProject,
+} from '../../utils/scanner.js';
+
+export type RegistryDeployResult = {
+  name: string;
+  type: ItemType;
+  version: string;
+  description: string;
+  items: RegistryDep[];
+  // Chemins des fichiers dans l'archive et taille totale non compressée (en octets)
+  files: string[];
+  size: number;
+  dryRun: boolean;
+  // Archive conservée avec --output
+  output?: string;
+};
+
+// Fichier de l'archive de déploiement : copié depuis le projet ou généré (metadata.json, registry-deps.json)
+type PackageFile = ItemFile & { size: number };
+
+type DeployFlags = {
+  type?: ItemType;
+  name?: string;
+  version?: string;
+  description?: string;
+  bump?: BumpType;
+  noPrompt: boolean;
+};
+
+export default class RegistryDeploy extends SfCommand<RegistryDeployResult> {
   // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
-  public static readonly summary = 'Déploie un composant LWC ou une classe Apex sur le registre externe';
-  public static readonly examples = ['$ sf registry deploy'];
+  public static readonly summary =
+    'Déploie un élément (composant LWC ou Aura, classe ou trigger Apex, étiquette, autorisation) sur le registre externe';
+  public static readonly examples = [
+    '$ sf registry deploy',
+    '$ sf registry deploy --type component --name myButton --no-prompt',
+    '$ sf registry deploy --type class --name MyUtil --version 1.1.0 --description "Correctifs" --no-prompt --json',
+    '$ sf registry deploy --type component --name myButton --dry-run',
+    '$ sf registry deploy --type component --name myButton --output myButton.zip',
+    '$ sf registry deploy --type class --name MyUtil --bump minor --no-prompt',
+  ];
+
+  public static readonly flags = {
+    type: typeFlag,
+    name: nameFlag,
+    version: versionFlag,
+    bump: bumpFlag,
+    description: descriptionFlag,
+    'dry-run': Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary:
+        "Affiche l'arbre des dépendances, les ressources statiques et les fichiers de l'archive sans rien envoyer.",
+      default: false,
+    }),
+    output: outputFlag,
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
 
   private projectRoot!: string;
-  private basePathLwc!: string;
-  private basePathApex!: string
+  private index!: ProjectIndex;
 
-  public async run(): Promise<void> {
+  public async run(): Promise<RegistryDeployResult> {
     try {
+      const { flags } = await this.parse(RegistryDeploy);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
       this.projectRoot = findProjectRoot(process.cwd());
-      this.basePathLwc = path.join(this.projectRoot, PATHS.LWC);
-      this.basePathApex = path.join(this.projectRoot, PATHS.APEX);
-      const { allComponents, allClasses, classNameToDir } = await this.scanProject();
-      const userInput = await this.gatherUserInput(allComponents, allClasses, classNameToDir);
-      const analysisParams = { allComponents, allClasses, classNameToDir, version: userInput.version };
-      const itemsToZip = await this.collectDependencies(userInput.name, userInput.type, analysisParams);
+      this.index = await this.scanProject();
+      // Le catalogue est lu avant l'empaquetage : une version déjà publiée ou inférieure est refusée sans rien envoyer,
+      // simulation comprise. Une simulation sans --bump reste possible hors connexion, sans ce contrôle.
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog =
+        flags['dry-run'] && !flags.bump
+          ? await this.tryFetchCatalog(registry)
+          : await fetchCatalog.call(this, registry);
+      const userInput = await this.gatherUserInput(
+        {
+          type: flags.type,
+          name: flags.name,
+          version: flags.version,
+          description: flags.description,
+          bump: flags.bump,
+          noPrompt,
+        },
+        catalog
+      );
+      if (catalog) this.checkVersionAgainstCatalog(catalog, userInput);
+      const seen = new Set<string>();
+      const dependencies = await this.collectDependencies(
+        userInput.name,
+        userInput.type,
+        { version: userInput.version },
+        seen
+      );
+      const itemsToZip = [...dependencies, ...(await this.collectTestClasses(dependencies, seen))];
       const staticResources = new Set(itemsToZip.flatMap((item) => item.staticresources));
       await this.validateStaticResources(staticResources);
-      const zipFilePath = await this.createDeploymentPackage(itemsToZip, staticResources, userInput, classNameToDir);
-      await this.sendPackage(zipFilePath);
-      await fs.unlink(zipFilePath);
+      const files = await this.planPackage(itemsToZip, staticResources, userInput);
+      const size = files.reduce((total, file) => total + file.size, 0);
+      const result = { ...userInput, items: itemsToZip, files: files.map((file) => file.name), size };
+      const output = flags.output && path.resolve(flags.output);
+
+      if (flags['dry-run']) {
+        this.reportDryRun(itemsToZip, staticResources, files, size);
+        if (output) {
+          await createDeploymentPackage(files, output);
+          this.log(`📦 Archive générée : ${output}`);
+        }
+        if (flags.bump) this.log(`🔢 ${FILENAMES.REGISTRY_META} n'est pas modifié en simulation.`);
+        this.log("🧪 Simulation (--dry-run) : rien n'a été envoyé au registre.");
+        return { ...result, dryRun: true, ...(output ? { output } : {}) };
+      }
+
+      const zipFilePath = await createDeploymentPackage(
+        files,
+        output ?? path.join(os.tmpdir(), `sf-deploy-${Date.now()}.zip`)
+      );
+      try {
+        await this.sendPackage(registry, zipFilePath);
+      } finally {
+        if (!output) await fs.unlink(zipFilePath);
+      }
+      if (output) this.log(`📦 Archive conservée : ${output}`);
+      if (flags.bump) await this.writeRegistryMetaVersion(userInput);
       this.log('✅ Déploiement terminé avec succès !');
+      return { ...result, dryRun: false, ...(output ? { output } : {}) };
     } catch (error) {
       this.error(`❌ Le déploiement a échoué : ${(error as Error).message}`);
     }
   }
 
+  private async tryFetchCatalog(registry: ResolvedRegistry): Promise<Registry | undefined> {
+    try {
+      return await fetchCatalog.call(this, registry);
+    } catch (error) {
+      this.warn(
+        `⚠️  Catalogue de ${registry.url} inaccessible, version non contrôlée : ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return undefined;
+    }
+  }
+
   private async gatherUserInput(
-    allComponents: string[],
-    allClasses: string[],
-    classNameToDir: Record<string, string>
+    flags: DeployFlags,
+    catalog?: Registry
   ): Promise<{
     name: string;
-    type: 'component' | 'class';
+    type: ItemType;
     version: string;
     description: string;
   }> {
-    const type = await promptComponentOrClass('Que voulez vous déployer ?');
+    const { noPrompt } = flags;
+    const type = await resolveOrPrompt(flags.type, {
+      flag: 'type',
+      noPrompt,
+      prompt: () => promptItemType('Que voulez vous déployer ?'),
+    });
     const cleanType = getCleanTypeLabel(type, false);
-    const items = type === 'component' ? allComponents : allClasses;
+    const items = this.index.items[type];
     if (items.length === 0) {
       this.error(`❌ Aucun ${cleanType} trouvé.`);
     }
-    const name = await promptSelectName(`Quel ${cleanType} voulez-vous déployer ?`, items);
-    let version: string;
-    let description: string;
-    const meta = await this.tryReadRegistryMeta(type, name, classNameToDir);
-    if (meta) {
-      this.log(`ℹ️ Fichier ${FILENAMES.REGISTRY_META} trouvé et valide. Utilisation des valeurs...`);
-      version = meta.version;
-      description = meta.description;
-    } else {
-      this.log(`ℹ️ Fichier ${FILENAMES.REGISTRY_META} non trouvé ou invalide. Passage en mode interactif...`);
-      version = await promptVersionToEnter();
-      description = await promptDescriptionToEnter();
+    const name = await resolveOrPrompt(flags.name, {
+      flag: 'name',
+      noPrompt,
+      prompt: () => promptSelectName(`Quel ${cleanType} voulez-vous déployer ?`, items),
+    });
+    if (!items.includes(name)) {
+      this.error(`❌ ${cleanType} "${name}" introuvable dans le projet.`);
+    }
+    if (flags.version && !registryMetaFileSchema.shape.version.safeParse(flags.version).success) {
+      this.error(`❌ Version "${flags.version}" invalide : le format doit être x.y.z (ou x.y.z-prerelease)`);
+    }
+    let version = flags.bump ? this.getBumpedVersion(catalog!, type, name, flags.bump) : flags.version;
+    let description = flags.description;
+    if (!version || !description) {
+      const meta = await this.tryReadRegistryMeta(type, name);
+      if (meta) {
+        this.log(`ℹ️ Fichier ${FILENAMES.REGISTRY_META} trouvé et valide. Utilisation des valeurs...`);
+        version ??= meta.version;
+        description ??= meta.description;
+      } else {
+        this.log(`ℹ️ Fichier ${FILENAMES.REGISTRY_META} non trouvé ou invalide. Passage en mode interactif...`);
+      }
     }
+    version = await resolveOrPrompt(version, { flag: 'version', noPrompt, prompt: () => promptVersionToEnter() });
+    description = await resolveOrPrompt(description, {
+      flag: 'description',
+      noPrompt,
+      prompt: () => promptDescriptionToEnter(),
+    });
     return { name, type, version, description };
   }
 
-  private async scanProject(): Promise<{
-    allComponents: string[];
-    allClasses: string[];
-    classNameToDir: Record<string, string>;
-  }> {
+  private getBumpedVersion(catalog: Registry, type: ItemType, name: string, bump: BumpType): string {
+    const latest = getLatestVersion(catalog[type].find((entry) => entry.name === name) ?? { name, versions: [] });
+    const version = bumpVersion(latest?.version, bump);
+    this.log(`🔢 Version ${version} (--bump ${bump} depuis ${latest ? latest.version : 'aucune version publiée'}).`);
+    return version;
+  }
+
+  /**
+   * Refuse une version déjà publiée ou inférieure à la dernière version du catalogue.
+   */
+  private checkVersionAgainstCatalog(catalog: Registry, item: { type: ItemType; name: string; version: string }): void {
+    const entry = catalog[item.type].find((e) => e.name === item.name);
+    if (!entry) return;
+    if (entry.versions.some((v) => v.version === item.version)) {
+      this.error(
+        `❌ ${item.name}@${item.version} est déjà publié sur le registre. Changez la version ou utilisez --bump.`
+      );
+    }
+    const latest = getLatestVersion(entry);
+    if (latest && compareVersions(item.version, latest.version) < 0) {
+      this.error(
+        `❌ La version ${item.version} est inférieure à la dernière version publiée de ${item.name} (${latest.version}). Utilisez --bump pour publier la suivante.`
+      );
+    }
+  }
+
+  /**
+   * Écrit la version publiée avec --bump dans le registry-meta.json de l'élément. S'il n'existe pas,
+   * il est créé avec la description du déploiement, pour rester valide au prochain `deploy`.
+   */
+  private async writeRegistryMetaVersion({
+    type,
+    name,
+    version,
+    description,
+  }: {
+    type: ItemType;
+    name: string;
+    version: string;
+    description: string;
+  }): Promise<void> {
+    const itemDir = getItemDirectory(this.index, type, name);
+    if (!itemDir) {
+      this.log(
+        `ℹ️ ${getCleanTypeLabel(type, false)} sans ${FILENAMES.REGISTRY_META} : version ${version} non enregistrée.`
+      );
+      return;
+    }
+    const metaPath = path.join(itemDir, FILENAMES.REGISTRY_META);
+    let meta: Record<string, unknown> = { description };
     try {
-      const [allComponents, { allClasses, classNameToDir }] = await Promise.all([
-        safeListDirNamesAsync(this.basePathLwc),
-        this.findAllClassesAsync(this.basePathApex),
-      ]);
-      return { allComponents, allClasses, classNameToDir };
+      meta = JSON.parse(await fs.readFile(metaPath, 'utf8')) as Record<string, unknown>;
+    } catch (error) {
+      if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
+        this.warn(
+          `⚠️  ${FILENAMES.REGISTRY_META} illisible, version ${version} non enregistrée : ${(error as Error).message}`
+        );
+        return;
+      }
+    }
+    const updated = { ...meta, version };
+    const result = registryMetaFileSchema.safeParse(updated);
+    if (!result.success) {
+      this.warn(
+        `⚠️  ${FILENAMES.REGISTRY_META} invalide, version ${version} non enregistrée : ${result.error.issues
+          .map((i) => i.message)
+          .join(', ')}`
+      );
+      return;
+    }
+    await fs.writeFile(metaPath, JSON.stringify(updated, null, 2) + '\n');
+    this.log(`📝 Version ${version} enregistrée dans ${metaPath}`);
+  }
+
+  private async scanProject(): Promise<ProjectIndex> {
+    try {
+      return await scanProject(this.projectRoot);
     } catch (error) {
       this.error(`❌ Une erreur est survenue lors de l'analyse du projet : ${(error as Error).message}`);
     }
@@ -96,12 +326,11 @@ export default class RegistryDeploy extends SfCommand<void> {
 
   private async validateStaticResources(resources: Set<string>): Promise<void> {
     const checks = Array.from(resources).map(async (resName) => {
-      const resourceDir = path.join(this.projectRoot, PATHS.STATIC_RESOURCES);
-      const metaFile = path.join(resourceDir, `${resName}.resource-meta.xml`);
-      if (!(await findStaticResourceFileAsync(resourceDir, resName))) {
+      const resource = await findStaticResource(this.index.staticResourceDirs, resName);
+      if (!resource) {
         throw new Error(`Ressource statique "${resName}" référencée mais introuvable.`);
       }
-      if (!(await fileExistsAndIsFile(metaFile))) {
+      if (!(await fileExistsAndIsFile(resource.metaFile))) {
         throw new Error(`Fichier .resource-meta.xml manquant pour la ressource statique "${resName}".`);
       }
     });
@@ -114,58 +343,76 @@ export default class RegistryDeploy extends SfCommand<void> {
     }
   }
 
-  private async createDeploymentPackage(
+  /**
+   * Liste les fichiers de l'archive : dossier de chaque élément, ressources statiques (fichier ou
+   * contenu du dossier, avec leur -meta.xml), metadata.json et registry-deps.json.
+   */
+  private async planPackage(
     itemsToZip: RegistryDep[],
     staticResources: Set<string>,
-    metadata: { name: string; description: string; type: ItemType; version: string },
-    classNameToDir: Record<string, string>
-  ): Promise<string> {
-    const tmpFile = path.join(os.tmpdir(), `sf-deploy-${Date.now()}.zip`);
-    const output = createWriteStream(tmpFile);
-    const archive = archiver('zip', { zlib: { level: 9 } });
-    archive.pipe(output);
-
-    for (const item of itemsToZip) {
-      const dirToAdd = item.type === 'component' ? path.join(this.basePathLwc, item.name) : classNameToDir[item.name];
-      archive.directory(dirToAdd, item.name);
+    metadata: { name: string; description: string; type: ItemType; version: string }
+  ): Promise<PackageFile[]> {
+    const itemFiles = await Promise.all(itemsToZip.map((item) => getItemFiles(this.index, item.type, item.name)));
+    const sources: ItemFile[] = itemFiles.flat();
+
+    const resourceFiles = await Promise.all(
+      Array.from(staticResources).map(async (resName) => {
+        const resource = await findStaticResource(this.index.staticResourceDirs, resName);
+        return resource ? getStaticResourceFiles(resource) : [];
+      })
+    );
+    // Une ressource en dossier peut contenir n'importe quel fichier
+    this.checkForbiddenFiles(resourceFiles.flat());
+    sources.push(...resourceFiles.flat());
+
+    const files: PackageFile[] = await Promise.all(
+      sources.map(async (file) => ({
+        ...file,
+        size: 'source' in file ? (await fs.stat(file.source)).size : Buffer.byteLength(file.content),
+      }))
+    );
+    for (const [name, data] of [
+      [FILENAMES.METADATA, metadata],
+      [FILENAMES.DEPS, itemsToZip],
+    ] as const) {
+      const content = JSON.stringify(data, null, 2);
+      files.push({ name, content, size: Buffer.byteLength(content) });
     }
+    return files;
+  }
 
-    const resourceDir = path.join(this.projectRoot, PATHS.STATIC_RESOURCES);
-
-    const resourcePromises = Array.from(staticResources).map(async (resName) => {
-      const mainFile = await findStaticResourceFileAsync(resourceDir, resName);
-      const metaFile = path.join(resourceDir, `${resName}.resource-meta.xml`);
-      return { mainFile, metaFile };
-    });
-
-    const resolvedResources = await Promise.all(resourcePromises);
-
-    for (const { mainFile, metaFile } of resolvedResources) {
-      if (mainFile) {
-        archive.file(mainFile, { name: path.join('staticresources', path.basename(mainFile)) });
-      }
-      archive.file(metaFile, { name: path.join('staticresources', path.basename(metaFile)) });
+  private reportDryRun(
+    itemsToZip: RegistryDep[],
+    staticResources: Set<string>,
+    files: PackageFile[],
+    size: number
+  ): void {
+    this.log('🌳 Arbre des dépendances :');
+    this.log(formatDeployTree(itemsToZip));
+    const tests = itemsToZip.filter((item) => item.test).map((item) => item.name);
+    this.log(`\n🧪 Classes de test : ${tests.length ? tests.join(', ') : 'aucune'}`);
+    this.log(
+      `\n🖼️  Ressources statiques : ${staticResources.size ? Array.from(staticResources).join(', ') : 'aucune'}`
+    );
+    this.log(`\n📄 Fichiers de l'archive (${files.length}) :`);
+    const width = Math.max(...files.map((file) => file.name.length));
+    for (const file of files) {
+      this.log(`  ${file.name.padEnd(width)}  ${kleur.dim(formatSize(file.size))}`);
     }
-
-    archive.append(JSON.stringify(metadata, null, 2), { name: FILENAMES.METADATA });
-    archive.append(JSON.stringify(itemsToZip, null, 2), { name: FILENAMES.DEPS });
-
-    await archive.finalize();
-    await finished(output);
-
-    return tmpFile;
+    this.log(`\n📦 Taille totale (non compressée) : ${formatSize(size)}`);
   }
 
-  private async sendPackage(zipFilePath: string): Promise<void> {
+  private async sendPackage(registry: ResolvedRegistry, zipFilePath: string): Promise<void> {
     try {
-      const stats = await fs.stat(zipFilePath);
-      const res = await authedFetch.call(this,`${SERVER_URL}/deploy`, {
+      // Chargé en mémoire (et non streamé) pour pouvoir rejouer l'envoi si le token est renouvelé
+      const zipContent = await fs.readFile(zipFilePath);
+      const res = await authedFetch(registry, '/deploy', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/zip',
-          'Content-Length': stats.size.toString(),
+          'Content-Length': zipContent.length.toString(),
         },
-        body: createReadStream(zipFilePath),
+        body: zipContent,
       });
       const resultText = await res.text();
       if (!res.ok) {
@@ -182,29 +429,21 @@ export default class RegistryDeploy extends SfCommand<void> {
   private async collectDependencies(
     dependenceName: string,
     dependenceType: ItemType,
-    params: {
-      allComponents: string[];
-      allClasses: string[];
-      classNameToDir: Record<string, string>;
-      version?: string;
-    },
+    params: { version?: string },
     seen = new Set<string>()
   ): Promise<RegistryDep[]> {
     const key = `${dependenceType}:${dependenceName}`;
     if (seen.has(key)) return [];
     seen.add(key);
 
-    const directoryPath =
-      dependenceType === 'component'
-        ? path.join(this.basePathLwc, dependenceName)
-        : params.classNameToDir[dependenceName];
-
-    await this.checkForbiddenFiles(directoryPath);
+    this.checkForbiddenFiles(await getItemFiles(this.index, dependenceType, dependenceName));
 
-    const [dependencies, staticresources] = await Promise.all([
-      this.getItemDependencies(dependenceName, dependenceType, params),
-      dependenceType === 'component' ? findStaticResourcesForComponent(directoryPath) : Promise.resolve([]),
+    const [{ dependencies: detected, staticResources: staticresources }, meta, details] = await Promise.all([
+      analyzeItem(this.index, dependenceName, dependenceType),
+      this.tryReadRegistryMeta(dependenceType, dependenceName),
+      readItemDetails(this.index, dependenceType, dependenceName),
     ]);
+    const dependencies = this.applyDeclaredRanges(dependenceName, detected, meta?.dependencies);
 
     const isFirstItem = seen.size === 1;
     const item: RegistryDep = {
@@ -212,6 +451,7 @@ export default class RegistryDeploy extends SfCommand<void> {
       type: dependenceType,
       dependencies,
       staticresources,
+      ...(details ? { details } : {}),
       ...(isFirstItem && params.version ? { version: params.version } : {}),
     };
 
@@ -222,115 +462,48 @@ export default class RegistryDeploy extends SfCommand<void> {
     return [item, ...subDeps.flat()];
   }
 
-  private async getItemDependencies(
-    name: string,
-    type: ItemType,
-    params: { allComponents: string[]; allClasses: string[]; classNameToDir: Record<string, string> }
-  ): Promise<Array<{ name: string; type: ItemType }>> {
-    if (type === 'component') {
-      return this.getLwcDependencies(name, params);
-    }
-    const dirClass = params.classNameToDir[name];
-    if (!dirClass) throw new Error(`Dossier introuvable pour la classe Apex "${name}".`);
-
-    const clsFile = path.join(dirClass, `${name}.cls`);
-    const apexDeps = await extractApexDependencies(clsFile, params.allClasses, name);
-    return apexDeps.map((depName) => ({ name: depName, type: 'class' }));
-  }
-
-  private async getLwcDependencies(
-    name: string,
-    params: { allComponents: string[]; allClasses: string[] }
-  ): Promise<Array<{ name: string; type: ItemType }>> {
-    const compDir = path.join(this.basePathLwc, name);
-    const htmlFile = path.join(compDir, `${name}.html`);
-    const tsFile = path.join(compDir, `${name}.ts`);
-    const jsFile = path.join(compDir, `${name}.js`);
-
-    const [htmlDeps, tsLwcDeps, jsLwcDeps, tsApexDeps, jsApexDeps] = await Promise.all([
-      extractDependenciesFromFile(htmlFile, /<c-([a-zA-Z0-9_]+)[\s>]/g),
-      extractDependenciesFromFile(tsFile, /import\s+\w+\s+from\s+["']c\/([a-zA-Z0-9_]+)["']/g),
-      extractDependenciesFromFile(jsFile, /import\s+\w+\s+from\s+["']c\/([a-zA-Z0-9_]+)["']/g),
-      extractDependenciesFromFile(tsFile, /import\s+\w+\s+from\s+['"]@salesforce\/apex\/([a-zA-Z0-9_]+)\.[^'"]+['"]/g),
-      extractDependenciesFromFile(jsFile, /import\s+\w+\s+from\s+['"]@salesforce\/apex\/([a-zA-Z0-9_]+)\.[^'"]+['"]/g),
-    ]);
-
-    const uniqueDependencies = new Map<string, { name: string; type: ItemType }>();
-
-    const allLwcDeps = [...htmlDeps, ...tsLwcDeps, ...jsLwcDeps];
-    for (const depName of allLwcDeps) {
-      if (params.allComponents.includes(depName)) {
-        uniqueDependencies.set(`component:${depName}`, { name: depName, type: 'component' });
-      }
-    }
-
-    const allApexDeps = [...tsApexDeps, ...jsApexDeps];
-    for (const depName of allApexDeps) {
-      if (params.allClasses.includes(depName)) {
-        uniqueDependencies.set(`class:${depName}`, { name: depName, type: 'class' });
-      }
-    }
-    return Array.from(uniqueDependencies.values());
+  /**
+   * Classes de test couvrant les classes à déployer, avec leurs propres dépendances qui ne sont pas
+   * déjà dans l'archive : toutes marquées `test` dans registry-deps.json.
+   */
+  private async collectTestClasses(items: RegistryDep[], seen: Set<string>): Promise<RegistryDep[]> {
+    const classNames = items.filter((item) => item.type === 'class').map((item) => item.name);
+    if (!classNames.length) return [];
+    const tests = (await findCoveringTests(this.index, classNames)).filter((name) => !seen.has(`class:${name}`));
+    // Séquentiel : une dépendance partagée par plusieurs tests n'est collectée qu'une fois, dans l'ordre des tests
+    const collected = await mapSequentially(tests, (test) => this.collectDependencies(test, 'class', {}, seen));
+    return collected.flat().map((item) => ({ ...item, test: true }));
   }
 
-  private async findAllClassesAsync(
-    basePathApex: string
-  ): Promise<{ allClasses: string[]; classNameToDir: Record<string, string> }> {
-    try {
-      const allClasses: string[] = [];
-      const classNameToDir: Record<string, string> = {};
-      const classDirs = await safeListDirNamesAsync(basePathApex);
-
-      const filesByDir = await Promise.all(
-        classDirs.map(async (dirName) => {
-          const dirPath = path.join(basePathApex, dirName);
-          const files = await fs.readdir(dirPath);
-          return { dirPath, files };
-        })
-      );
-
-      for (const { dirPath, files } of filesByDir) {
-        for (const file of files) {
-          if (file.endsWith('.cls') && !file.endsWith('.cls-meta.xml')) {
-            const className = path.basename(file, '.cls');
-            allClasses.push(className);
-            classNameToDir[className] = dirPath;
-          }
-        }
+  /**
+   * Associe aux dépendances détectées les plages semver déclarées dans registry-meta.json.
+   */
+  private applyDeclaredRanges(
+    itemName: string,
+    detected: Array<{ name: string; type: ItemType }>,
+    declared: Record<string, string> = {}
+  ): RegistryDep['dependencies'] {
+    for (const name of Object.keys(declared)) {
+      if (!detected.some((dep) => dep.name === name)) {
+        this.warn(`⚠️  ${FILENAMES.REGISTRY_META} de ${itemName} déclare "${name}", qui n'est pas une dépendance détectée.`);
       }
-      return { allClasses, classNameToDir };
-    } catch (error) {
-      this.error(`❌ Erreur lors de la recherche des classes Apex: ${(error as Error).message}`);
     }
+    return detected.map((dep) => (declared[dep.name] ? { ...dep, version: declared[dep.name] } : dep));
   }
 
-  private async checkForbiddenFiles(directoryPath: string): Promise<void> {
-    for await (const filePath of this.walkDirAsync(directoryPath)) {
-      const extension = path.extname(filePath).toLowerCase();
+  private checkForbiddenFiles(files: ItemFile[]): void {
+    for (const file of files) {
+      if (!('source' in file)) continue;
+      const extension = path.extname(file.source).toLowerCase();
       if (FORBIDDEN_EXTENSIONS.includes(extension)) {
-        this.error(`❌ Fichier interdit détecté : ${filePath}. Extension refusée : ${extension}`);
-      }
-    }
-  }
-
-  private async *walkDirAsync(dir: string): AsyncGenerator<string> {
-    const entries = await fs.readdir(dir, { withFileTypes: true });
-    for (const entry of entries) {
-      const entryPath = path.join(dir, entry.name);
-      if (entry.isDirectory()) {
-        yield* this.walkDirAsync(entryPath);
-      } else {
-        yield entryPath;
+        this.error(`❌ Fichier interdit détecté : ${file.source}. Extension refusée : ${extension}`);
       }
     }
   }
 
-  private async tryReadRegistryMeta(
-    type: ItemType,
-    name: string,
-    classNameToDir: Record<string, string>
-  ): Promise<{ version: string; description: string } | null> {
-    const componentDir = type === 'component' ? path.join(this.basePathLwc, name) : classNameToDir[name];
+  // Les étiquettes et autorisations, qui ne sont pas des dossiers, n'ont pas de registry-meta.json
+  private async tryReadRegistryMeta(type: ItemType, name: string): Promise<RegistryMetaFile | null> {
+    const componentDir = getItemDirectory(this.index, type, name);
     if (!componentDir) return null;
 
     const metaFilePath = path.join(componentDir, FILENAMES.REGISTRY_META);
@@ -353,64 +526,43 @@ export default class RegistryDeploy extends SfCommand<void> {
   }
 }
 
-async function extractApexDependencies(
-  clsFilePath: string,
-  allClassNames: string[],
-  selfClassName: string
-): Promise<string[]> {
-  const code = await fs.readFile(clsFilePath, 'utf8');
-  // Utilise un mot-clé (boundary `\b`) pour éviter les correspondances partielles (ex: `MyClass` dans `MyClassName`)
-  return allClassNames.filter(
-    (className) => className !== selfClassName && new RegExp(`\\b${className}\\b`).test(code)
-  );
-}
-
-async function findStaticResourcesForComponent(componentDir: string): Promise<string[]> {
-  const regex = /import\s+\w+\s+from\s+["']@salesforce\/resourceUrl\/([a-zA-Z0-9_]+)["']/g;
-  const baseName = path.basename(componentDir);
-  const tsFile = path.join(componentDir, `${baseName}.ts`);
-  const jsFile = path.join(componentDir, `${baseName}.js`);
-
-  const [tsResults, jsResults] = await Promise.all([
-    extractDependenciesFromFile(tsFile, regex),
-    extractDependenciesFromFile(jsFile, regex),
-  ]);
+async function createDeploymentPackage(files: PackageFile[], zipFilePath: string): Promise<string> {
+  await fs.mkdir(path.dirname(zipFilePath), { recursive: true });
+  const output = createWriteStream(zipFilePath);
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  archive.pipe(output);
 
-  return [...new Set([...tsResults, ...jsResults])];
-}
-
-async function findStaticResourceFileAsync(resourceDir: string, resName: string): Promise<string | null> {
-  try {
-    const files = await fs.readdir(resourceDir);
-    const foundFile = files.find(
-      (file) =>
-        (file === resName || file.startsWith(resName + '.')) &&
-        !file.endsWith('.resource-meta.xml')
-    );
-    return foundFile ? path.join(resourceDir, foundFile) : null;
-  } catch {
-    return null;
+  for (const file of files) {
+    if ('source' in file) archive.file(file.source, { name: file.name });
+    else archive.append(file.content, { name: file.name });
   }
-}
 
-async function extractDependenciesFromFile(filePath: string, regex: RegExp): Promise<string[]> {
-  try {
-    const code = await fs.readFile(filePath, 'utf8');
-    const matches = [...code.matchAll(regex)];
-    return [...new Set(matches.map((match) => match[1]))];
-  } catch (error) {
-    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  await archive.finalize();
+  await finished(output);
+
+  return zipFilePath;
 }
 
-async function safeListDirNamesAsync(base: string): Promise<string[]> {
-  try {
-    const entries = await fs.readdir(base, { withFileTypes: true });
-    return entries.filter((e) => e.isDirectory()).map((e) => e.name);
-  } catch (error) {
-    throw new Error(`Erreur lors de la lecture du dossier "${base}" : ${(error as Error).message}`);
-  }
+/**
+ * Arbre ASCII des éléments à déployer, à partir du premier (l'élément déployé).
+ * Un élément déjà affiché plus haut n'est pas redéveloppé.
+ */
+function formatDeployTree(items: RegistryDep[]): string {
+  const byKey = new Map(items.map((item) => [`${item.type}:${item.name}`, item]));
+  const shown = new Set<string>();
+  const lines: string[] = [];
+  const walk = (item: RegistryDep, prefix: string, branch: string): void => {
+    const key = `${item.type}:${item.name}`;
+    const repeated = shown.has(key);
+    shown.add(key);
+    lines.push(`${prefix}${branch}${item.name} (${item.type})${repeated ? kleur.dim(' (voir plus haut)') : ''}`);
+    if (repeated) return;
+    const childPrefix = prefix + (branch === '└── ' ? '    ' : branch === '├── ' ? '│   ' : '');
+    item.dependencies.forEach((dep, index) => {
+      const child = byKey.get(`${dep.type}:${dep.name}`);
+      if (child) walk(child, childPrefix, index === item.dependencies.length - 1 ? '└── ' : '├── ');
+    });
+  };
+  if (items.length) walk(items[0], '', '');
+  return lines.join('\n');
 }
@@ -1,159 +1,206 @@
-import path from 'node:path';
-import fs from 'node:fs';
-import { createWriteStream, createReadStream } from 'node:fs';
-import { randomUUID } from 'node:crypto';
-import os from 'node:os';
-import unzipper from 'unzipper';
-import { SfCommand } from '@salesforce/sf-plugins-core';
-import fsExtra from 'fs-extra';
-import { SERVER_URL } from '../../utils/constants.js';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
 import {
   fetchCatalog,
   getCleanTypeLabel,
   getNonEmptyItemsOrError,
   findEntryOrError,
-  safeRemove,
-  getDestination,
-  authedFetch,
+  findProjectRoot,
 } from '../../utils/functions.js';
 import {
-  promptComponentOrClass,
+  canPrompt,
+  resolveOrPrompt,
+  promptItemType,
   promptSelectName,
   promptSelectVersion,
   promptTargetDirectory,
 } from '../../utils/prompts.js';
 import { AuthError } from '../../utils/errors.js';
+import {
+  collectTreeNodes,
+  DependencyNode,
+  formatDependencyTree,
+  formatRef,
+  itemKey,
+  resolveDependencyForest,
+} from '../../utils/dependencies.js';
+import { installNodes, isInstalled } from '../../utils/installer.js';
+import {
+  getLockedVersions,
+  getManifestRoots,
+  readLockfile,
+  readManifest,
+  recordInstall,
+} from '../../utils/manifest.js';
+import { getLatestVersion } from '../../utils/versions.js';
+import {
+  typeFlag,
+  nameFlag,
+  versionFlag,
+  targetDirFlag,
+  conflictFlag,
+  serverFlag,
+  noPromptFlag,
+} from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { getDefaultPackageDirectory, readPackageDirectories } from '../../utils/project.js';
+import { FILENAMES } from '../../utils/constants.js';
+import { ComponentOrClassEntry, ItemType, RegistryLock, RegistryManifest } from '../../utils/types.js';
+
+export type RegistryDownloadResult = {
+  type: ItemType;
+  name: string;
+  version: string;
+  targetDir: string;
+  installed: string[];
+  skipped: string[];
+};
 
-export default class RegistryDownload extends SfCommand<void> {
+export default class RegistryDownload extends SfCommand<RegistryDownloadResult> {
   // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
   public static readonly summary =
     'Télécharge un composant LWC ou une classe Apex depuis un registre externe (avec menu interactif).';
-  public static readonly examples = ['$ sf registry download'];
+  public static readonly examples = [
+    '$ sf registry download',
+    '$ sf registry download --type component --name myButton --version 1.2.0 --target-dir force-app/main/default --no-prompt',
+    '$ sf registry download --name myButton --conflict backup',
+    '$ sf registry download --type class --name MyUtil --skip-tests',
+  ];
 
-  public async run(): Promise<void> {
-    const tmpDir = path.join(os.tmpdir(), `registry-download-${randomUUID()}`);
-    let zipPath: string | undefined;
+  public static readonly flags = {
+    type: typeFlag,
+    name: nameFlag,
+    version: versionFlag,
+    'target-dir': targetDirFlag,
+    conflict: conflictFlag,
+    'skip-tests': Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: 'Ne place pas les classes de test livrées avec les classes Apex téléchargées.',
+      default: false,
+    }),
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistryDownloadResult> {
     try {
-      const type = await promptComponentOrClass('Que veux-tu télécharger ?');
-      const catalog = await fetchCatalog.call(this, SERVER_URL);
+      const { flags } = await this.parse(RegistryDownload);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const conflict = flags.conflict;
+      if (conflict === 'prompt' && !canPrompt(noPrompt)) {
+        throw new Error('--conflict prompt nécessite un terminal interactif : utilisez skip, overwrite ou backup.');
+      }
+      const type = await resolveOrPrompt(flags.type, {
+        flag: 'type',
+        noPrompt,
+        prompt: () => promptItemType('Que veux-tu télécharger ?'),
+      });
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
       const cleanType = getCleanTypeLabel(type, false);
       const entries = getNonEmptyItemsOrError.call(this, catalog, type, cleanType, 'à télécharger');
-      const name = await promptSelectName(`Quel ${cleanType} veux-tu télécharger ?`,entries.map((e) => e.name));
+      const name = await resolveOrPrompt(flags.name, {
+        flag: 'name',
+        noPrompt,
+        prompt: () => promptSelectName(`Quel ${cleanType} veux-tu télécharger ?`, entries.map((e) => e.name)),
+      });
       const entry = findEntryOrError.call(this, entries, name);
-      const version = await promptSelectVersion(entry, name);
-      const targetDirectory = await promptTargetDirectory();
-      zipPath = await this.downloadZip(SERVER_URL, type, name, version);
-      await extractZip(zipPath, tmpDir);
-      await this.handleExtraction(tmpDir, targetDirectory);
+      const version = await this.resolveVersion(entry, flags.version, noPrompt);
+      const targetDirectory = await resolveTargetDirectory(flags['target-dir'], noPrompt);
+      const project = await this.readProject();
+      const request = { type, name, version };
+      // Le reste du manifeste est résolu en même temps : une dépendance partagée doit convenir à tous
+      const others = project
+        ? getManifestRoots(project.manifest).filter((root) => itemKey(root) !== itemKey(request))
+        : [];
+      const resolved = resolveDependencyForest(catalog, [...others, request], {
+        preferred: project && getLockedVersions(project.lock),
+      });
+      const tree = resolved.trees[resolved.trees.length - 1];
+      const treeNodes = collectTreeNodes(tree);
+      const installOrder = resolved.installOrder.filter((node) => treeNodes.has(node));
+      const alreadyInstalled = await findInstalledNodes(installOrder, targetDirectory);
+      this.log('🌳 Dépendances résolues :');
+      const presentLabel = conflict === 'skip' ? ' — déjà installé' : ` — déjà présent (--conflict ${conflict})`;
+      this.log(formatDependencyTree(tree, (node) => (alreadyInstalled.has(node) ? presentLabel : '')));
+
+      // En mode `skip`, un élément déjà présent n'est pas retéléchargé
+      const toInstall = installOrder.filter((node) => conflict !== 'skip' || !alreadyInstalled.has(node));
+      const { installed, skipped: kept } = await installNodes.call(
+        this,
+        registry,
+        toInstall.map((node) => ({ ...node, hash: node.details.hash })),
+        targetDirectory,
+        { conflict, skipTests: flags['skip-tests'], backupRoot: project?.root }
+      );
+      const keptNodes = installOrder.filter(
+        (node) => alreadyInstalled.has(node) && (conflict === 'skip' || kept.includes(node.name))
+      );
+      const skipped = keptNodes.map(formatRef);
+      if (project) {
+        // Les éléments conservés ne sont pas verrouillés à une version qui n'est pas celle du projet
+        await recordInstall(project.root, resolved, new Set(toInstall.filter((node) => !keptNodes.includes(node))));
+        this.log(`📝 ${FILENAMES.MANIFEST} et ${FILENAMES.LOCK} mis à jour.`);
+      }
       this.log('✅ Téléchargement et extraction terminés avec succès !');
+      return { type, name, version, targetDir: targetDirectory, installed, skipped };
     } catch (error) {
       if (error instanceof AuthError) {
         this.error(error.message);
       }
       this.error(`❌ Le téléchargement a échoué : ${error instanceof Error ? error.message : String(error)}`);
-    } finally {
-      await Promise.all([zipPath ? safeRemove.call(this, zipPath) : Promise.resolve(), safeRemove.call(this, tmpDir)]);
     }
   }
 
-  private async downloadZip(server: string, type: string, name: string, version: string): Promise<string> {
-    const url = `${server}/download/${type}/${name}/${version}`;
-    const zipPath = path.join(os.tmpdir(), `${name}-${version}-${randomUUID()}.zip`);
-    this.log('📥 Téléchargement ...');
-
-    const res = await authedFetch.call(this,url);
-    if (!res.ok) throw new Error(`Erreur HTTP ${res.status}: ${res.statusText}`);
-    if (!res.body) throw new Error('Réponse HTTP sans body !');
-
-    const fileStream = createWriteStream(zipPath);
-    await new Promise<void>((resolve, reject) => {
-      res.body!.pipe(fileStream).on('error', reject).on('finish', resolve);
-    });
-
-    return zipPath;
-  }
-
-  private async handleExtraction(tmpExtractPath: string, targetDirectory: string): Promise<void> {
-    const entries = await fs.promises.readdir(tmpExtractPath, { withFileTypes: true });
-    const extractedDirs = entries
-      .filter((e) => e.isDirectory() && e.name !== 'staticresources')
-      .map((e) => e.name);
-
-    await Promise.all(
-      extractedDirs.map(async (itemName) => {
-        try {
-          const sourceDir = path.join(tmpExtractPath, itemName);
-          const itemType = await getItemTypeFromFiles(sourceDir);
-          const destinationDir = getDestination(targetDirectory, itemType, itemName);
-          await fsExtra.move(sourceDir, destinationDir, { overwrite: false });
-          this.log(`✅ ${itemType} "${itemName}" extrait dans ${destinationDir}`);
-        } catch (err) {
-          if (err instanceof Error && err.message.includes('dest already exists')) {
-            this.warn(`⚠️  Un item nommé "${itemName}" existe déjà. Extraction ignorée.`);
-          } else {
-            throw new Error(
-              `Erreur lors de l'extraction de "${itemName}": ${err instanceof Error ? err.message : String(err)}`
-            );
-          }
-        }
-      })
-    );
-    await this.handleStaticResources(tmpExtractPath, targetDirectory);
-  }
-
-  private async handleStaticResources(tmpExtractPath: string, targetDirectory: string): Promise<void> {
+  /**
+   * registry.json et registry-lock.json du projet Salesforce courant, mis à jour après le téléchargement.
+   */
+  private async readProject(): Promise<{ root: string; manifest: RegistryManifest; lock: RegistryLock } | undefined> {
+    let root: string;
     try {
-      const staticResExtracted = path.join(tmpExtractPath, 'staticresources');
-      if (!(await fileExists(staticResExtracted))) {
-        return;
-      }
-      const staticResTarget = path.join(targetDirectory, 'staticresources');
-      await fsExtra.ensureDir(staticResTarget);
-      const resFiles = await fs.promises.readdir(staticResExtracted);
-      await Promise.all(resFiles.map((file) => this.copyStaticResource(file, staticResExtracted, staticResTarget)));
-    } catch (error) {
-      throw new Error(
-        `Erreur lors du traitement des staticresources: ${error instanceof Error ? error.message : String(error)}`
+      root = findProjectRoot(process.cwd());
+    } catch {
+      this.warn(
+        `⚠️  Aucun sfdx-project.json trouvé : ${FILENAMES.MANIFEST} et ${FILENAMES.LOCK} ne sont pas mis à jour.`
       );
+      return undefined;
     }
+    const [manifest, lock] = await Promise.all([readManifest(root), readLockfile(root)]);
+    return { root, manifest, lock: lock ?? { lockfileVersion: 1, items: {} } };
   }
 
-  private async copyStaticResource(file: string, srcDir: string, destDir: string): Promise<void> {
-    const src = path.join(srcDir, file);
-    const dest = path.join(destDir, file);
-    try {
-      await fsExtra.move(src, dest, { overwrite: false });
-      this.log(`✅ Staticresource "${file}" copiée dans ${destDir}`);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('dest already exists')) {
-        this.warn(`⚠️  Fichier staticresource "${file}" déjà présent. Copie ignorée.`);
-      } else {
-        throw error; 
+  /**
+   * Sans --version ni prompt possible, on prend la dernière version publiée.
+   */
+  private async resolveVersion(entry: ComponentOrClassEntry, version: string | undefined, noPrompt: boolean): Promise<string> {
+    if (version) {
+      if (!entry.versions.some((v) => v.version === version)) {
+        this.error(`Version "${version}" introuvable pour ${entry.name}.`);
       }
+      return version;
     }
+    if (canPrompt(noPrompt)) return promptSelectVersion(entry, entry.name);
+    const latest = getLatestVersion(entry);
+    if (!latest) this.error(`Aucune version disponible pour ${entry.name}.`);
+    return latest.version;
   }
 }
 
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.promises.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-async function extractZip(zipPath: string, extractPath: string): Promise<void> {
-  await fs.promises.mkdir(extractPath, { recursive: true });
-  const stream = createReadStream(zipPath).pipe(unzipper.Extract({ path: extractPath }));
-  await new Promise((resolve, reject) => {
-    stream.on('close', resolve).on('error', reject);
-  });
+/**
+ * Sans --target-dir, l'utilisateur choisit parmi les dossiers de packages de sfdx-project.json ;
+ * sans prompt possible, le dossier par défaut est utilisé.
+ */
+async function resolveTargetDirectory(targetDir: string | undefined, noPrompt: boolean): Promise<string> {
+  if (targetDir) return targetDir;
+  const projectRoot = findProjectRoot(process.cwd());
+  const packageDirs = await readPackageDirectories(projectRoot);
+  return canPrompt(noPrompt)
+    ? promptTargetDirectory(packageDirs, projectRoot)
+    : getDefaultPackageDirectory(packageDirs).targetDir;
 }
 
-async function getItemTypeFromFiles(dirPath: string): Promise<'component' | 'class'> {
-  const files = await fs.promises.readdir(dirPath);
-  if (files.some((file) => file.endsWith('.cls'))) return 'class';
-  if (files.some((file) => file.endsWith('.js') || file.endsWith('.ts'))) return 'component';
-  throw new Error(`Type de source non reconnu dans le dossier ${dirPath}`);
+async function findInstalledNodes(nodes: DependencyNode[], targetDirectory: string): Promise<Set<DependencyNode>> {
+  const checks = await Promise.all(
+    nodes.map(async (node) => ((await isInstalled(node, targetDirectory)) ? node : null))
+  );
+  return new Set(checks.filter((node): node is DependencyNode => node !== null));
 }
@@ -0,0 +1,133 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import {
+  fetchCatalog,
+  findEntryOrError,
+  findProjectRoot,
+  getCleanTypeLabel,
+  getNonEmptyItemsOrError,
+} from '../../utils/functions.js';
+import { promptItemType, promptSelectName, resolveOrPrompt } from '../../utils/prompts.js';
+import { AuthError } from '../../utils/errors.js';
+import {
+  buildLocalGraph,
+  buildRegistryGraph,
+  DependencyGraph,
+  formatGraphAscii,
+  formatGraphDot,
+  formatGraphMermaid,
+} from '../../utils/graph.js';
+import { readLockfile } from '../../utils/manifest.js';
+import { scanProject } from '../../utils/scanner.js';
+import { getLatestVersion } from '../../utils/versions.js';
+import { typeFlag, nameFlag, versionFlag, graphFormatFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { ItemType } from '../../utils/types.js';
+
+export type RegistryGraphResult = DependencyGraph;
+
+type GraphFlags = {
+  type: ItemType;
+  name?: string;
+  version?: string;
+  server?: string;
+  noPrompt: boolean;
+};
+
+export default class RegistryGraph extends SfCommand<RegistryGraphResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary =
+    "Affiche l'arbre des dépendances d'un élément du projet ou d'un élément publié sur le registre.";
+  public static readonly examples = [
+    '$ sf registry graph --type component --name myButton',
+    '$ sf registry graph --type component --name myButton@1.2.0 --format mermaid',
+    '$ sf registry graph --type class --name MyUtil --registry --format dot > deps.dot',
+  ];
+
+  public static readonly flags = {
+    type: typeFlag,
+    name: nameFlag,
+    version: versionFlag,
+    registry: Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: 'Lit les dépendances publiées sur le registre (dernière version sans --version) au lieu du projet.',
+      default: false,
+    }),
+    format: graphFormatFlag,
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistryGraphResult> {
+    try {
+      const { flags } = await this.parse(RegistryGraph);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const type = await resolveOrPrompt(flags.type, {
+        flag: 'type',
+        noPrompt,
+        prompt: () => promptItemType('De quel élément veux-tu voir les dépendances ?'),
+      });
+      // `--name monElement@1.2.0` équivaut à `--name monElement --version 1.2.0`
+      const [name, versionFromName] = flags.name?.split('@') ?? [];
+      const version = flags.version ?? versionFromName;
+      const params = { type, name, version, server: flags.server, noPrompt };
+      const graph = flags.registry || version ? await this.registryGraph(params) : await this.localGraph(params);
+
+      switch (flags.format) {
+        case 'json':
+          this.log(JSON.stringify(graph, null, 2));
+          break;
+        case 'mermaid':
+          this.log(formatGraphMermaid(graph));
+          break;
+        case 'dot':
+          this.log(formatGraphDot(graph));
+          break;
+        default:
+          this.log(formatGraphAscii(graph));
+      }
+      return graph;
+    } catch (error) {
+      if (error instanceof AuthError) return this.error(error.message);
+      this.error(`❌ Impossible de construire le graphe : ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async localGraph(flags: GraphFlags): Promise<DependencyGraph> {
+    const projectRoot = findProjectRoot(process.cwd());
+    const index = await scanProject(projectRoot);
+    const cleanType = getCleanTypeLabel(flags.type, false);
+    const items = index.items[flags.type];
+    if (!items.length) this.error(`❌ Aucun ${cleanType} trouvé dans le projet.`);
+    const name = await resolveOrPrompt(flags.name, {
+      flag: 'name',
+      noPrompt: flags.noPrompt,
+      prompt: () => promptSelectName(`Quel ${cleanType} ?`, items),
+    });
+    if (!items.includes(name)) {
+      this.error(`❌ ${cleanType} "${name}" introuvable dans le projet (utilisez --registry pour le registre).`);
+    }
+    return buildLocalGraph(index, { type: flags.type, name }, await readLockfile(projectRoot));
+  }
+
+  private async registryGraph(flags: GraphFlags): Promise<DependencyGraph> {
+    const registry = await resolveRegistry(flags.server, { noPrompt: flags.noPrompt });
+    const catalog = await fetchCatalog.call(this, registry);
+    const cleanType = getCleanTypeLabel(flags.type, false);
+    const entries = getNonEmptyItemsOrError.call(this, catalog, flags.type, cleanType, 'à afficher');
+    const name = await resolveOrPrompt(flags.name, {
+      flag: 'name',
+      noPrompt: flags.noPrompt,
+      prompt: () =>
+        promptSelectName(
+          `Quel ${cleanType} ?`,
+          entries.map((e) => e.name)
+        ),
+    });
+    const entry = findEntryOrError.call(this, entries, name);
+    const version = flags.version ?? getLatestVersion(entry)?.version;
+    if (!version || !entry.versions.some((v) => v.version === version)) {
+      this.error(`Version "${version ?? '?'}" introuvable pour ${entry.name}.`);
+    }
+    return buildRegistryGraph(catalog, { type: flags.type, name, version });
+  }
+}
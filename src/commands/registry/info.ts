@@ -0,0 +1,179 @@
+import { Args } from '@oclif/core';
+import { SfCommand } from '@salesforce/sf-plugins-core';
+import kleur from 'kleur';
+import Table from 'cli-table3';
+import { fetchCatalog, findEntryOrError, getCleanTypeLabel } from '../../utils/functions.js';
+import { AuthError } from '../../utils/errors.js';
+import {
+  Dependent,
+  DependencyNode,
+  findDependents,
+  formatDependencyTree,
+  resolveDependencyTree,
+} from '../../utils/dependencies.js';
+import { compareVersions, getLatestVersion } from '../../utils/versions.js';
+import { typeFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { ITEM_TYPES } from '../../utils/constants.js';
+import { ItemType, Registry } from '../../utils/types.js';
+
+// Dépendance résolue, sans le détail de sa version (allège la sortie --json)
+export type InfoDependency = {
+  type: ItemType;
+  name: string;
+  version: string;
+  dependencies: InfoDependency[];
+};
+
+export type RegistryInfoResult = {
+  type: ItemType;
+  name: string;
+  // Version détaillée : celle demandée, sinon la dernière
+  version: string;
+  latest: string;
+  hash: string;
+  description: string;
+  staticResources: string[];
+  // Toutes les versions publiées, de la plus récente à la plus ancienne (changelog)
+  versions: Array<{ version: string; hash: string; description: string }>;
+  dependencies: InfoDependency[];
+  // Motif de l'échec de la résolution des dépendances (dépendance absente, conflit...)
+  unresolved?: string;
+  dependents: Dependent[];
+};
+
+export default class RegistryInfo extends SfCommand<RegistryInfoResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary =
+    "Affiche le détail d'un élément du registre : versions, dépendances, ressources statiques et éléments qui l'utilisent.";
+  public static readonly examples = [
+    '$ sf registry info myButton',
+    '$ sf registry info MyUtil@1.2.0 --type class',
+    '$ sf registry info myButton --json',
+  ];
+
+  public static readonly args = {
+    name: Args.string({ description: "Nom de l'élément, éventuellement suivi de @version", required: true }),
+  };
+
+  public static readonly flags = {
+    type: typeFlag,
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistryInfoResult> {
+    try {
+      const { args, flags } = await this.parse(RegistryInfo);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const [name, requestedVersion] = args.name.split('@');
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
+      const type = flags.type ?? findItemType.call(this, catalog, name);
+      const entry = findEntryOrError.call(this, catalog[type], name);
+
+      const latest = getLatestVersion(entry);
+      const details = requestedVersion ? entry.versions.find((v) => v.version === requestedVersion) : latest;
+      if (!latest || !details) {
+        this.error(`Version "${requestedVersion ?? '?'}" introuvable pour ${entry.name}.`);
+      }
+
+      let tree: DependencyNode | undefined;
+      let unresolved: string | undefined;
+      try {
+        tree = resolveDependencyTree(catalog, { type, name, version: details.version }).tree;
+      } catch (error) {
+        unresolved = error instanceof Error ? error.message : String(error);
+      }
+
+      const result: RegistryInfoResult = {
+        type,
+        name,
+        version: details.version,
+        latest: latest.version,
+        hash: details.hash,
+        description: details.description,
+        staticResources: details.staticresources,
+        versions: [...entry.versions]
+          .sort((a, b) => compareVersions(b.version, a.version))
+          .map((v) => ({ version: v.version, hash: v.hash, description: v.description })),
+        dependencies: tree?.dependencies.map(toInfoDependency) ?? [],
+        ...(unresolved ? { unresolved } : {}),
+        dependents: findDependents(catalog, { type, name }),
+      };
+      this.printInfo(result, tree);
+      return result;
+    } catch (error) {
+      if (error instanceof AuthError) return this.error(error.message);
+      this.error(`❌ Erreur inattendue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private printInfo(result: RegistryInfoResult, tree: DependencyNode | undefined): void {
+    this.log(`${kleur.cyan().bold(result.name)} (${getCleanTypeLabel(result.type, false)})`);
+    this.log(`Version              : ${result.version}${result.version === result.latest ? ' (dernière)' : ''}`);
+    if (result.version !== result.latest) this.log(`Dernière version     : ${result.latest}`);
+    this.log(`Empreinte            : ${result.hash || '—'}`);
+    this.log(`Ressources statiques : ${result.staticResources.join(', ') || 'aucune'}`);
+
+    this.log(kleur.bold('\nVersions :'));
+    this.log(formatVersions(result));
+
+    this.log(kleur.bold(`\nDépendances (${result.version}) :`));
+    if (result.unresolved) {
+      this.warn(`Dépendances non résolues : ${result.unresolved}`);
+    } else if (tree?.dependencies.length) {
+      this.log(formatDependencyTree(tree));
+    } else {
+      this.log('Aucune dépendance.');
+    }
+
+    this.log(kleur.bold('\nUtilisé par :'));
+    this.log(
+      result.dependents.length
+        ? formatDependents(result.dependents)
+        : `Aucun élément du catalogue ne dépend de ${result.name}.`
+    );
+  }
+}
+
+// Sans --type, l'élément est cherché parmi tous les types du catalogue
+function findItemType(this: { error: (msg: string) => never }, catalog: Registry, name: string): ItemType {
+  const types = ITEM_TYPES.filter((type) => catalog[type].some((entry) => entry.name === name));
+  if (types.length > 1) {
+    this.error(`Plusieurs éléments "${name}" existent (${types.join(', ')}) : précisez --type.`);
+  }
+  // Aucun type : findEntryOrError signalera l'élément introuvable
+  return types[0] ?? ITEM_TYPES[0];
+}
+
+function toInfoDependency(node: DependencyNode): InfoDependency {
+  return {
+    type: node.type,
+    name: node.name,
+    version: node.version,
+    dependencies: node.dependencies.map(toInfoDependency),
+  };
+}
+
+function formatVersions(result: RegistryInfoResult): string {
+  const table = new Table({
+    head: ['Version', 'Empreinte', 'Description'].map((h) => kleur.bold(h)),
+    style: { head: [], border: [] },
+  });
+  for (const v of result.versions) {
+    table.push([v.version === result.version ? kleur.cyan().bold(v.version) : v.version, v.hash || '—', v.description]);
+  }
+  return table.toString();
+}
+
+function formatDependents(dependents: Dependent[]): string {
+  const table = new Table({
+    head: ['Élément', 'Type', 'Version', 'Plage demandée'].map((h) => kleur.bold(h)),
+    style: { head: [], border: [] },
+  });
+  for (const dependent of dependents) {
+    table.push([dependent.name, dependent.type, dependent.version, dependent.range]);
+  }
+  return table.toString();
+}
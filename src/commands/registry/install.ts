@@ -0,0 +1,109 @@
+import { SfCommand } from '@salesforce/sf-plugins-core';
+import { fetchCatalog, findProjectRoot, getDefaultTargetDirectory } from '../../utils/functions.js';
+import { AuthError } from '../../utils/errors.js';
+import { formatRef, itemKey } from '../../utils/dependencies.js';
+import { installNodes } from '../../utils/installer.js';
+import { getLockInstallOrder, readLockfile, readManifest } from '../../utils/manifest.js';
+import { targetDirFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { FILENAMES, ITEM_TYPES } from '../../utils/constants.js';
+import { satisfiesRange } from '../../utils/versions.js';
+import { LockEntry, Registry, RegistryLock, RegistryManifest } from '../../utils/types.js';
+
+export type RegistryInstallResult = {
+  targetDir: string;
+  installed: string[];
+  // Parmi `installed`, les versions locales qui différaient du lockfile
+  replaced: string[];
+  skipped: string[];
+};
+
+export default class RegistryInstall extends SfCommand<RegistryInstallResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary =
+    'Installe les composants et classes du projet aux versions exactes de registry-lock.json.';
+  public static readonly examples = [
+    '$ sf registry install',
+    '$ sf registry install --target-dir force-app/main/default --no-prompt',
+  ];
+
+  public static readonly flags = {
+    'target-dir': targetDirFlag,
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistryInstallResult> {
+    try {
+      const { flags } = await this.parse(RegistryInstall);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const projectRoot = findProjectRoot(process.cwd());
+      const lock = await readLockfile(projectRoot);
+      if (!lock) {
+        this.error(`Aucun ${FILENAMES.LOCK} dans ${projectRoot}. Ajoutez des éléments avec « sf registry download ».`);
+      }
+      this.warnIfOutOfSync(await readManifest(projectRoot), lock);
+
+      const targetDirectory = flags['target-dir'] ?? (await getDefaultTargetDirectory(projectRoot));
+      const entries = getLockInstallOrder(lock);
+      if (!entries.length) {
+        this.log(`Aucun élément dans ${FILENAMES.LOCK}, rien à installer.`);
+        return { targetDir: targetDirectory, installed: [], replaced: [], skipped: [] };
+      }
+
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
+      entries.forEach((entry) => assertMatchesCatalog(catalog, entry));
+
+      // Dans l'ordre du lockfile : dépendances d'abord. Un élément déjà présent est comparé à l'archive
+      // verrouillée (vérifiée contre son empreinte) et remplacé s'il en diffère
+      const summary = await installNodes.call(this, registry, entries, targetDirectory, { replaceChanged: true });
+      const { installed, replaced } = summary;
+      const skipped = entries.filter((entry) => summary.skipped.includes(entry.name)).map(formatRef);
+      this.log(
+        `✅ ${installed.length} fichier(s) installé(s) dont ${replaced.length} remplacé(s), ` +
+          `${skipped.length} élément(s) déjà à jour.`
+      );
+      return { targetDir: targetDirectory, installed, replaced, skipped };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        this.error(error.message);
+      }
+      this.error(`❌ L'installation a échoué : ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private warnIfOutOfSync(manifest: RegistryManifest, lock: RegistryLock): void {
+    const stale = ITEM_TYPES.flatMap((type) =>
+      Object.entries(manifest[type])
+        .filter(([name, range]) => {
+          const locked = lock.items[itemKey({ type, name })]?.version;
+          return !locked || !satisfiesRange(locked, range);
+        })
+        .map(([name, range]) => `${name}@${range}`)
+    );
+    if (stale.length) {
+      this.warn(
+        `⚠️  ${FILENAMES.LOCK} n'est pas à jour pour : ${stale.join(', ')}. ` +
+          'Relancez « sf registry download » pour ces éléments.'
+      );
+    }
+  }
+}
+
+/**
+ * Une installation reproductible exige que le registre serve exactement ce qui a été verrouillé.
+ */
+function assertMatchesCatalog(catalog: Registry, entry: LockEntry): void {
+  const details = catalog[entry.type]
+    .find((e) => e.name === entry.name)
+    ?.versions.find((v) => v.version === entry.version);
+  if (!details) {
+    throw new Error(`${formatRef(entry)} (${entry.type}) est verrouillé mais n'existe plus dans le registre.`);
+  }
+  if (details.hash !== entry.hash) {
+    throw new Error(
+      `L'empreinte de ${formatRef(entry)} a changé dans le registre (${details.hash} au lieu de ${entry.hash}).`
+    );
+  }
+}
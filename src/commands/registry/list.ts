@@ -3,23 +3,44 @@ import kleur from 'kleur';
 import Table from 'cli-table3';
 
 import { fetchCatalog, getCleanTypeLabel, getNonEmptyItemsOrError } from '../../utils/functions.js';
-import { promptComponentOrClass } from '../../utils/prompts.js';
-import { SERVER_URL } from '../../utils/constants.js';
-import { ComponentOrClassEntry } from '../../utils/types.js';
+import { promptItemType, resolveOrPrompt } from '../../utils/prompts.js';
+import { ComponentOrClassEntry, ComponentOrClassVersion, ItemType } from '../../utils/types.js';
 import { AuthError } from '../../utils/errors.js';
+import { typeFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
 
-export default class RegistryList extends SfCommand<void> {
+export type RegistryListResult = {
+  type: ItemType;
+  items: ComponentOrClassEntry[];
+};
+
+export default class RegistryList extends SfCommand<RegistryListResult> {
   // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
-  public static readonly summary = 'Affiche la liste des composants ou classes du registre';
-  public static readonly examples = ['$ sf registry list'];
+  public static readonly summary =
+    "Affiche la liste des éléments d'un type (composants, classes, triggers...) du registre";
+  public static readonly examples = ['$ sf registry list', '$ sf registry list --type component --json'];
+
+  public static readonly flags = {
+    type: typeFlag,
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
 
-  public async run(): Promise<void> {
+  public async run(): Promise<RegistryListResult> {
     try {
-      const type = await promptComponentOrClass('Que veux‑tu afficher ?');
-      const catalog = await fetchCatalog.call(this, SERVER_URL);
+      const { flags } = await this.parse(RegistryList);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const type = await resolveOrPrompt(flags.type, {
+        flag: 'type',
+        noPrompt,
+        prompt: () => promptItemType('Que veux‑tu afficher ?'),
+      });
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
       const cleanType = getCleanTypeLabel(type);
       const items = getNonEmptyItemsOrError.call(this, catalog, type, cleanType, 'à afficher');
       this.log(this.formatRegistry(items, type, cleanType));
+      return { type, items };
     } catch (error) {
       if (error instanceof AuthError) return this.error(error.message);
       this.error(`❌ Erreur inattendue: ${(error as Error).message}`);
@@ -29,32 +50,70 @@ export default class RegistryList extends SfCommand<void> {
   // eslint-disable-next-line class-methods-use-this
   private formatRegistry(
     items: ComponentOrClassEntry[],
-    type: 'component' | 'class',
+    type: ItemType,
     label: string,
   ): string {
+    const extra = EXTRA_COLUMNS[type] ?? [];
     const chunks: string[] = [];
     chunks.push('\n' + kleur.bold().underline(`${label} disponibles (${items.length})`) + '\n');
     for (const entry of items) {
       chunks.push(kleur.cyan().bold(`• ${entry.name}`));
       if (!entry.versions.length) continue;
       const table = new Table({
-        head:
-          type === 'component'
-            ? [kleur.bold('Version'), kleur.bold('Description'), kleur.bold('StaticResources')]
-            : [kleur.bold('Version'), kleur.bold('Description')],
-        colWidths: type === 'component' ? [12, 40, 30] : [12, 60],
+        head: ['Version', 'Description', ...extra.map((column) => column.title)].map((h) => kleur.bold(h)),
+        colWidths: COLUMN_WIDTHS[extra.length],
         style: { head: [], border: [] },
         wordWrap: true,
       });
       entry.versions.forEach((v) => {
-        table.push(
-          type === 'component'
-            ? [`v${v.version}`, v.description || '—', (v.staticresources ?? []).join(', ') || '—']
-            : [`v${v.version}`, v.description || '—'],
-        );
+        table.push([`v${v.version}`, v.description || '—', ...extra.map((column) => column.value(v) || '—')]);
       });
       chunks.push(table.toString(), '');
     }
     return chunks.join('\n');
   }
 }
+
+type ExtraColumn = { title: string; value: (v: ComponentOrClassVersion) => string };
+
+// Colonnes propres à certains types, après Version et Description
+const EXTRA_COLUMNS: Partial<Record<ItemType, ExtraColumn[]>> = {
+  component: [{ title: 'StaticResources', value: (v) => (v.staticresources ?? []).join(', ') }],
+  aura: [
+    {
+      title: 'Dépendances',
+      value: (v) => v.registryDependencies.map((dep) => `${dep.name} (${dep.type})`).join(', '),
+    },
+  ],
+  trigger: [
+    {
+      title: 'Classes',
+      value: (v) =>
+        v.registryDependencies
+          .filter((dep) => dep.type === 'class')
+          .map((dep) => dep.name)
+          .join(', '),
+    },
+  ],
+  // Publiées par `deploy` depuis les métadonnées (absentes des versions plus anciennes)
+  label: [
+    { title: 'Valeur', value: (v) => v.details?.value ?? '' },
+    { title: 'Catégories', value: (v) => v.details?.categories ?? '' },
+  ],
+  permission: [
+    { title: 'Libellé', value: (v) => v.details?.label ?? '' },
+    { title: 'Sous licence', value: (v) => formatFlag(v.details?.licensed) },
+  ],
+};
+
+// Largeurs (Version, Description, puis colonnes propres) selon le nombre de colonnes propres au type
+const COLUMN_WIDTHS = [
+  [12, 60],
+  [12, 40, 30],
+  [12, 30, 24, 24],
+];
+
+function formatFlag(value: string | undefined): string {
+  if (value === undefined) return '';
+  return value === 'true' ? 'oui' : 'non';
+}
@@ -1,54 +1,86 @@
-import { promises as fs } from 'node:fs';
-import { SfCommand } from '@salesforce/sf-plugins-core';
-import inquirer from 'inquirer';
-import fetch from 'node-fetch';
-import { SERVER_URL, AUTH_CONFIG_FILE_PATH } from '../../utils/constants.js';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { AUTH_CONFIG_FILE_PATH, ENV_VARS } from '../../utils/constants.js';
+import { readStdin, requestLogin } from '../../utils/functions.js';
+import { canPrompt, promptCredentials } from '../../utils/prompts.js';
+import { usernameFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry, saveProfileTokens } from '../../utils/profiles.js';
 
-export default class RegistryLogin extends SfCommand<void> {
+export type RegistryLoginResult = {
+  server: string;
+  profile: string;
+  username: string;
+  authFile: string;
+  refreshable: boolean;
+};
+
+export default class RegistryLogin extends SfCommand<RegistryLoginResult> {
   // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
   public static readonly summary = "S'authentifie auprès du registre et sauvegarde le token d'accès.";
-  public static readonly examples = ['$ sf registry login'];
-
-  public async run(): Promise<void> {
-    const { username, password } = await inquirer.prompt<{ username: string; password: string }>([
-      {
-        name: 'username',
-        message: 'Nom d\'utilisateur du registre :',
-        type: 'input', 
-      },
-      {
-        name: 'password',
-        message: 'Mot de passe du registre :',
-        type: 'password',
-        mask: '*',
-      },
-    ]);
+  public static readonly examples = [
+    '$ sf registry login',
+    '$ sf registry login --username jdoe',
+    '$ sf registry login --server staging',
+    '$ echo "$REGISTRY_PASSWORD" | sf registry login --username ci-bot --password-stdin',
+  ];
+
+  public static readonly flags = {
+    username: usernameFlag,
+    'password-stdin': Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: "Lit le mot de passe sur l'entrée standard (nécessite --username).",
+      dependsOn: ['username'],
+    }),
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistryLoginResult> {
+    const { flags } = await this.parse(RegistryLogin);
+    const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+    const registry = await resolveRegistry(flags.server).catch((error: Error) => this.error(error.message));
+    // Une URL sans profil associé crée un profil portant le nom de son hôte
+    const profile = registry.profile ?? new URL(registry.url).host;
+
+    const { username, password } = await this.readCredentials(flags.username, flags['password-stdin'], noPrompt);
 
     if (!username || !password) {
       this.error('Le nom d\'utilisateur et le mot de passe sont requis.');
     }
 
-    this.log('⏳ Tentative d\'authentification auprès du serveur...');
+    this.log(`⏳ Tentative d'authentification auprès de ${registry.url} (profil "${profile}")...`);
     try {
-      const res = await fetch(`${SERVER_URL}/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password }),
-      });
-
-      const body = (await res.json()) as { token?: string; error?: string };
-
-
-      if (!res.ok || !body.token) {
-        this.error(`❌ Échec de l'authentification (Status: ${res.status}) - Erreur serveur: ${body.error ?? 'Aucune précision'}`);
-      }
-
-      const configData = { token: body.token };
-      await fs.writeFile(AUTH_CONFIG_FILE_PATH, JSON.stringify(configData, null, 2), 'utf-8');
+      const tokens = await requestLogin(registry.url, username, password);
+      await saveProfileTokens(profile, registry.url, tokens);
       this.log('✅ Authentification réussie ! Le token a été sauvegardé');
-
+      if (process.env[ENV_VARS.TOKEN]) {
+        this.warn(`⚠️  ${ENV_VARS.TOKEN} est défini : il reste prioritaire sur le token sauvegardé.`);
+      }
+      return {
+        server: registry.url,
+        profile,
+        username,
+        authFile: AUTH_CONFIG_FILE_PATH,
+        refreshable: Boolean(tokens.refreshToken),
+      };
     } catch (error) {
       this.error(`❌ Échec de la connexion : ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-}
\ No newline at end of file
+
+  private async readCredentials(
+    username: string | undefined,
+    passwordStdin: boolean | undefined,
+    noPrompt: boolean
+  ): Promise<{ username: string; password: string }> {
+    if (username && passwordStdin) {
+      // Seul le saut de ligne final ajouté par `echo` est retiré : le mot de passe peut contenir des espaces
+      return { username, password: (await readStdin()).replace(/\r?\n$/, '') };
+    }
+    if (!canPrompt(noPrompt)) {
+      this.error(
+        `Le mot de passe ne peut être saisi qu'en mode interactif. Utilisez --username et --password-stdin, ou ${ENV_VARS.TOKEN}.`
+      );
+    }
+    return promptCredentials(username);
+  }
+}
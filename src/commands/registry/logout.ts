@@ -0,0 +1,62 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { ENV_VARS } from '../../utils/constants.js';
+import { requestLogout } from '../../utils/functions.js';
+import { clearProfileToken, readRegistryConfig, resolveRegistry } from '../../utils/profiles.js';
+import { serverFlag } from '../../utils/flags.js';
+
+export type RegistryLogoutResult = {
+  profile?: string;
+  server: string;
+  removed: boolean;
+  revoked: boolean;
+};
+
+export default class RegistryLogout extends SfCommand<RegistryLogoutResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary = 'Supprime le token du registre stocké localement (et le révoque éventuellement).';
+  public static readonly examples = ['$ sf registry logout', '$ sf registry logout --server staging --revoke'];
+
+  public static readonly flags = {
+    server: serverFlag,
+    revoke: Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: 'Révoque également le token auprès du serveur avant de le supprimer.',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<RegistryLogoutResult> {
+    const { flags } = await this.parse(RegistryLogout);
+    const registry = await resolveRegistry(flags.server).catch((error: Error) => this.error(`❌ ${error.message}`));
+    // Avec REGISTRY_TOKEN, `registry.token` est celui de l'environnement : seul le token stocké du profil est concerné
+    const stored = registry.profile ? (await readRegistryConfig()).profiles[registry.profile] : undefined;
+    const fromEnv = registry.tokenSource === 'env';
+    if (!registry.profile || (!stored?.token && !stored?.refreshToken)) {
+      this.log(`ℹ️ Aucun token enregistré pour ${registry.url}.`);
+      if (fromEnv) this.warnEnvToken();
+      return { profile: registry.profile, server: registry.url, removed: false, revoked: false };
+    }
+
+    let revoked = false;
+    if (flags.revoke && fromEnv) {
+      this.warn(`⚠️  Révocation ignorée : ${ENV_VARS.TOKEN} est défini, le token stocké est seulement supprimé.`);
+    } else if (flags.revoke && stored.token) {
+      try {
+        await requestLogout(registry.url, stored.token);
+        revoked = true;
+      } catch (error) {
+        // Serveur injoignable ou refus : le token local est supprimé quand même
+        this.warn(`⚠️  Révocation impossible : ${(error as Error).message}`);
+      }
+    }
+
+    const removed = await clearProfileToken(registry.profile);
+    if (fromEnv) this.warnEnvToken();
+    if (removed) this.log(`✅ Déconnecté du registre ${registry.url} (profil "${registry.profile}").`);
+    return { profile: registry.profile, server: registry.url, removed, revoked };
+  }
+
+  private warnEnvToken(): void {
+    this.warn(`⚠️  ${ENV_VARS.TOKEN} est toujours défini : pensez à retirer cette variable d'environnement.`);
+  }
+}
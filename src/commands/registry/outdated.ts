@@ -0,0 +1,70 @@
+import { SfCommand } from '@salesforce/sf-plugins-core';
+import kleur from 'kleur';
+import Table from 'cli-table3';
+import { fetchCatalog, findProjectRoot } from '../../utils/functions.js';
+import { AuthError } from '../../utils/errors.js';
+import { getManifestRoots, getOutdatedItems, OutdatedItem, readLockfile, readManifest } from '../../utils/manifest.js';
+import { serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { FILENAMES } from '../../utils/constants.js';
+
+export type RegistryOutdatedResult = {
+  items: OutdatedItem[];
+};
+
+export default class RegistryOutdated extends SfCommand<RegistryOutdatedResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary =
+    'Liste les composants et classes du projet pour lesquels une version plus récente est publiée.';
+  public static readonly examples = ['$ sf registry outdated', '$ sf registry outdated --json'];
+
+  public static readonly flags = {
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistryOutdatedResult> {
+    try {
+      const { flags } = await this.parse(RegistryOutdated);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const projectRoot = findProjectRoot(process.cwd());
+      const manifest = await readManifest(projectRoot);
+      const lock = (await readLockfile(projectRoot)) ?? { lockfileVersion: 1, items: {} };
+      if (!Object.keys(lock.items).length && !getManifestRoots(manifest).length) {
+        this.log(`Aucun élément du registre dans ce projet (${FILENAMES.MANIFEST} absent ou vide).`);
+        return { items: [] };
+      }
+
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
+      const items = getOutdatedItems(catalog, manifest, lock);
+      if (!items.length) {
+        this.log('✅ Tous les éléments sont à jour.');
+        return { items };
+      }
+      this.log(formatOutdated(items));
+      this.log('Lancez « sf registry update » pour installer les dernières versions.');
+      return { items };
+    } catch (error) {
+      if (error instanceof AuthError) return this.error(error.message);
+      this.error(`❌ Erreur inattendue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+function formatOutdated(items: OutdatedItem[]): string {
+  const table = new Table({
+    head: ['Élément', 'Type', 'Actuelle', 'Voulue', 'Dernière'].map((h) => kleur.bold(h)),
+    style: { head: [], border: [] },
+  });
+  for (const item of items) {
+    table.push([
+      item.direct ? kleur.cyan().bold(item.name) : `${item.name} ${kleur.dim('(dépendance)')}`,
+      item.type,
+      item.current === item.wanted ? item.current : kleur.red(item.current ?? '—'),
+      item.wanted,
+      kleur.green(item.latest),
+    ]);
+  }
+  return '\n' + table.toString() + '\n';
+}
@@ -0,0 +1,83 @@
+import { Args } from '@oclif/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import kleur from 'kleur';
+import Table from 'cli-table3';
+import { fetchCatalog } from '../../utils/functions.js';
+import { AuthError } from '../../utils/errors.js';
+import { searchCatalog, SearchResult } from '../../utils/search.js';
+import { typeFlag, dependsOnFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+
+export type RegistrySearchResult = {
+  query: string;
+  results: SearchResult[];
+};
+
+export default class RegistrySearch extends SfCommand<RegistrySearchResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary =
+    'Recherche dans le catalogue du registre (noms et descriptions, correspondance approchée) et classe les résultats par pertinence.';
+  public static readonly examples = [
+    '$ sf registry search button',
+    '$ sf registry search "date format" --type class',
+    '$ sf registry search --has-static-resources --depends-on MyUtil --json',
+  ];
+
+  public static readonly args = {
+    query: Args.string({ description: 'Texte recherché (facultatif si des filtres sont utilisés)' }),
+  };
+
+  public static readonly flags = {
+    type: typeFlag,
+    'has-static-resources': Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: 'Ne garde que les éléments dont la dernière version livre des ressources statiques.',
+      default: false,
+    }),
+    'depends-on': dependsOnFlag,
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistrySearchResult> {
+    try {
+      const { args, flags } = await this.parse(RegistrySearch);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const query = args.query?.trim() ?? '';
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
+      const results = searchCatalog(catalog, query, {
+        type: flags.type,
+        hasStaticResources: flags['has-static-resources'],
+        dependsOn: flags['depends-on'],
+      });
+      if (!results.length) {
+        this.log(query ? `Aucun élément ne correspond à « ${query} ».` : 'Aucun élément ne correspond aux filtres.');
+        return { query, results };
+      }
+      this.log(formatResults(results));
+      this.log(`${results.length} résultat(s). « sf registry info <nom> » affiche le détail d'un élément.`);
+      return { query, results };
+    } catch (error) {
+      if (error instanceof AuthError) return this.error(error.message);
+      this.error(`❌ Erreur inattendue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+function formatResults(results: SearchResult[]): string {
+  const table = new Table({
+    head: ['#', 'Élément', 'Type', 'Version', 'Description'].map((h) => kleur.bold(h)),
+    style: { head: [], border: [] },
+  });
+  results.forEach((result, index) => {
+    table.push([
+      String(index + 1),
+      kleur.cyan().bold(result.name),
+      result.type,
+      result.version,
+      result.description + (result.staticResources.length ? kleur.dim(` (${result.staticResources.join(', ')})`) : ''),
+    ]);
+  });
+  return '\n' + table.toString() + '\n';
+}
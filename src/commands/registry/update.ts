@@ -0,0 +1,174 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { fetchCatalog, findProjectRoot, getDefaultTargetDirectory } from '../../utils/functions.js';
+import { canPrompt, promptSelectItemsToUpdate } from '../../utils/prompts.js';
+import { AuthError } from '../../utils/errors.js';
+import { DependencyNode, itemKey, resolveDependencyForest } from '../../utils/dependencies.js';
+import { InstallTarget, installNodes, isInstalled } from '../../utils/installer.js';
+import {
+  getLockedVersions,
+  getManifestRoots,
+  getOutdatedItems,
+  OutdatedItem,
+  readLockfile,
+  readManifest,
+  recordInstall,
+} from '../../utils/manifest.js';
+import { typeFlag, itemNamesFlag, targetDirFlag, serverFlag, noPromptFlag } from '../../utils/flags.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { FILENAMES, ITEM_TYPES } from '../../utils/constants.js';
+import { compareVersions, getVersionsBetween } from '../../utils/versions.js';
+import { ItemType, Registry, RegistryLock, RegistryManifest, ResolvedRegistry } from '../../utils/types.js';
+
+export type RegistryUpdatedItem = {
+  type: ItemType;
+  name: string;
+  from?: string;
+  to: string;
+  // Versions publiées entre `from` (exclue) et `to` (incluse)
+  changes: Array<{ version: string; description: string }>;
+};
+
+export type RegistryUpdateResult = {
+  targetDir: string;
+  updated: RegistryUpdatedItem[];
+  installed: string[];
+};
+
+export default class RegistryUpdate extends SfCommand<RegistryUpdateResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary =
+    'Met à jour les composants et classes du projet vers la dernière version publiée sur le registre.';
+  public static readonly examples = [
+    '$ sf registry update',
+    '$ sf registry update --name myButton --name MyUtil',
+    '$ sf registry update --all --no-prompt',
+  ];
+
+  public static readonly flags = {
+    type: typeFlag,
+    name: itemNamesFlag,
+    all: Flags.boolean({
+      // eslint-disable-next-line sf-plugin/no-hardcoded-messages-flags
+      summary: 'Met à jour tous les éléments de registry.json.',
+      default: false,
+      exclusive: ['name'],
+    }),
+    'target-dir': targetDirFlag,
+    server: serverFlag,
+    'no-prompt': noPromptFlag,
+  };
+
+  public async run(): Promise<RegistryUpdateResult> {
+    try {
+      const { flags } = await this.parse(RegistryUpdate);
+      const noPrompt = flags['no-prompt'] || this.jsonEnabled();
+      const projectRoot = findProjectRoot(process.cwd());
+      const manifest = await readManifest(projectRoot);
+      const lock = (await readLockfile(projectRoot)) ?? { lockfileVersion: 1, items: {} };
+      const targetDirectory = flags['target-dir'] ?? (await getDefaultTargetDirectory(projectRoot));
+
+      const registry = await resolveRegistry(flags.server, { noPrompt });
+      const catalog = await fetchCatalog.call(this, registry);
+      // Seuls les éléments de registry.json sont mis à jour ; leurs dépendances suivent
+      const candidates = getOutdatedItems(catalog, manifest, lock).filter(
+        (item) =>
+          item.direct &&
+          (!flags.type || item.type === flags.type) &&
+          compareVersions(item.latest, item.current ?? item.wanted) > 0
+      );
+      const selected = await this.selectItems(candidates, manifest, flags, noPrompt);
+      if (!selected.length) {
+        this.log('✅ Rien à mettre à jour.');
+        return { targetDir: targetDirectory, updated: [], installed: [] };
+      }
+
+      // Le manifeste entier est résolu avec les nouvelles versions : un conflit est détecté avant toute écriture
+      const roots = getManifestRoots(manifest).map((root) => ({
+        ...root,
+        version: selected.find((item) => itemKey(item) === itemKey(root))?.latest ?? root.version,
+      }));
+      // Les autres éléments gardent leur version verrouillée tant qu'elle reste compatible
+      const preferred = getLockedVersions(lock);
+      selected.forEach((item) => preferred.delete(itemKey(item)));
+      const resolved = resolveDependencyForest(catalog, roots, { preferred });
+      const installed = await this.installChanged(registry, resolved.installOrder, lock, targetDirectory);
+      await recordInstall(projectRoot, resolved);
+
+      const updated = selected.map((item) => describeUpdate(catalog, item));
+      this.reportChanges(updated);
+      this.log(`📝 ${FILENAMES.MANIFEST} et ${FILENAMES.LOCK} mis à jour.`);
+      return { targetDir: targetDirectory, updated, installed };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        this.error(error.message);
+      }
+      this.error(`❌ La mise à jour a échoué : ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * `--all`, `--name` (répétable) ou, à défaut, une sélection interactive parmi les éléments obsolètes.
+   */
+  private async selectItems(
+    candidates: OutdatedItem[],
+    manifest: RegistryManifest,
+    flags: { type?: ItemType; name?: string[]; all: boolean },
+    noPrompt: boolean
+  ): Promise<OutdatedItem[]> {
+    if (flags.all) return candidates;
+    if (flags.name) {
+      return flags.name.flatMap((name) => {
+        if (!(flags.type ? [flags.type] : ITEM_TYPES).some((type) => name in manifest[type])) {
+          this.error(`"${name}" n'est pas listé dans ${FILENAMES.MANIFEST}${flags.type ? ` (${flags.type})` : ''}.`);
+        }
+        const matches = candidates.filter((item) => item.name === name);
+        if (!matches.length) this.log(`✅ ${name} est déjà à jour.`);
+        return matches;
+      });
+    }
+    if (!candidates.length) return [];
+    if (!canPrompt(noPrompt)) {
+      throw new Error('Valeur manquante : utilisez --name ou --all (aucun prompt possible en mode non interactif).');
+    }
+    return promptSelectItemsToUpdate(candidates);
+  }
+
+  /**
+   * Installe les éléments de l'arbre dont la version verrouillée change (ou absents du projet).
+   * Un dossier existant est remplacé ; en cas d'échec, aucun n'est modifié.
+   */
+  private async installChanged(
+    registry: ResolvedRegistry,
+    nodes: DependencyNode[],
+    lock: RegistryLock,
+    targetDirectory: string
+  ): Promise<string[]> {
+    const present = await Promise.all(nodes.map((node) => isInstalled(node, targetDirectory)));
+    const changed: InstallTarget[] = nodes
+      .filter((node, index) => !present[index] || lock.items[itemKey(node)]?.version !== node.version)
+      .map((node) => ({ ...node, hash: node.details.hash }));
+    const { installed } = await installNodes.call(this, registry, changed, targetDirectory, { conflict: 'overwrite' });
+    return installed;
+  }
+
+  private reportChanges(updated: RegistryUpdatedItem[]): void {
+    for (const item of updated) {
+      this.log(`\n📦 ${item.name} (${item.type}) : ${item.from ?? '—'} → ${item.to}`);
+      for (const change of item.changes) {
+        this.log(`   • v${change.version} — ${change.description}`);
+      }
+    }
+  }
+}
+
+function describeUpdate(catalog: Registry, item: OutdatedItem): RegistryUpdatedItem {
+  const entry = catalog[item.type].find((e) => e.name === item.name);
+  const changes = entry ? getVersionsBetween(entry, item.current ?? item.wanted, item.latest) : [];
+  return {
+    type: item.type,
+    name: item.name,
+    from: item.current,
+    to: item.latest,
+    changes: changes.map((v) => ({ version: v.version, description: v.description })),
+  };
+}
@@ -0,0 +1,66 @@
+import { SfCommand } from '@salesforce/sf-plugins-core';
+import { ENV_VARS, TOKEN_EXPIRY_WARNING_MS } from '../../utils/constants.js';
+import { decodeJwtPayload } from '../../utils/functions.js';
+import { resolveRegistry } from '../../utils/profiles.js';
+import { serverFlag } from '../../utils/flags.js';
+import { JwtPayload } from '../../utils/types.js';
+
+export type RegistryWhoamiResult = {
+  profile?: string;
+  server: string;
+  tokenSource?: 'env' | 'profile';
+  subject?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  expired: boolean;
+};
+
+export default class RegistryWhoami extends SfCommand<RegistryWhoamiResult> {
+  // eslint-disable-next-line sf-plugin/no-hardcoded-messages-commands
+  public static readonly summary = "Affiche l'utilisateur authentifié auprès du registre et l'expiration de son token.";
+  public static readonly examples = ['$ sf registry whoami', '$ sf registry whoami --server staging --json'];
+
+  public static readonly flags = {
+    server: serverFlag,
+  };
+
+  public async run(): Promise<RegistryWhoamiResult> {
+    const { flags } = await this.parse(RegistryWhoami);
+    const registry = await resolveRegistry(flags.server).catch((error: Error) => this.error(`❌ ${error.message}`));
+    if (!registry.token) {
+      this.error(`Vous n’êtes pas authentifié auprès de ${registry.url}. Lancez « sf registry login ».`);
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = decodeJwtPayload(registry.token);
+    } catch (error) {
+      this.error(`❌ ${(error as Error).message} Relancez « sf registry login ».`);
+    }
+
+    const expiresAtMs = payload.exp !== undefined ? payload.exp * 1000 : undefined;
+    const remainingMs = expiresAtMs !== undefined ? expiresAtMs - Date.now() : undefined;
+    const result: RegistryWhoamiResult = {
+      profile: registry.profile,
+      server: registry.url,
+      tokenSource: registry.tokenSource,
+      subject: payload.sub,
+      issuedAt: payload.iat !== undefined ? new Date(payload.iat * 1000).toISOString() : undefined,
+      expiresAt: expiresAtMs !== undefined ? new Date(expiresAtMs).toISOString() : undefined,
+      expired: remainingMs !== undefined && remainingMs <= 0,
+    };
+
+    this.log(`Utilisateur   : ${result.subject ?? '—'}`);
+    this.log(`Serveur       : ${result.server}${result.profile ? ` (profil "${result.profile}")` : ''}`);
+    this.log(`Token         : ${result.tokenSource === 'env' ? `variable ${ENV_VARS.TOKEN}` : 'profil'}`);
+    this.log(`Émis le       : ${result.issuedAt ?? '—'}`);
+    this.log(`Expire le     : ${result.expiresAt ?? 'jamais'}`);
+
+    if (result.expired) {
+      this.warn('⚠️  Le token a expiré. Lancez « sf registry login ».');
+    } else if (remainingMs !== undefined && remainingMs < TOKEN_EXPIRY_WARNING_MS) {
+      this.warn(`⚠️  Le token expire dans ${Math.ceil(remainingMs / 60_000)} minute(s).`);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,141 @@
+import { findResourceUrls } from './staticresources.js';
+
+// Mots-clés qui déclarent un type dans un fichier Apex (classe interne comprise)
+const DECLARATION_KEYWORDS = new Set(['class', 'interface', 'enum']);
+
+/**
+ * Découpe un source Apex (classe, classe de test ou trigger) en identifiants et en
+ * ponctuations utiles (`.`, `@`, `{`). Commentaires, chaînes et nombres sont ignorés.
+ */
+export function tokenizeApex(code: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const char = code[i];
+    const next = skipCommentOrString(code, i);
+    if (next !== undefined) {
+      i = next;
+    } else if (/[a-zA-Z_]/.test(char)) {
+      const start = i;
+      while (i < code.length && /\w/.test(code[i])) i++;
+      tokens.push(code.slice(start, i));
+    } else if (/[0-9]/.test(char)) {
+      while (i < code.length && /[\w.]/.test(code[i])) i++;
+    } else {
+      if (char === '.' || char === '@' || char === '{') tokens.push(char);
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// Position qui suit le commentaire ou la chaîne commençant en `i` (undefined s'il n'y en a pas)
+function skipCommentOrString(code: string, i: number): number | undefined {
+  if (code.startsWith('//', i)) {
+    const end = code.indexOf('\n', i);
+    return end === -1 ? code.length : end + 1;
+  }
+  if (code.startsWith('/*', i)) {
+    const end = code.indexOf('*/', i + 2);
+    return end === -1 ? code.length : end + 2;
+  }
+  if (code[i] !== "'") return undefined;
+  // Les chaînes Apex sont entre apostrophes, `\` échappe le caractère suivant
+  let end = i + 1;
+  while (end < code.length && code[end] !== "'") end += code[end] === '\\' ? 2 : 1;
+  return end + 1;
+}
+
+/**
+ * Classes de `classNames` référencées par un source Apex. Apex ne tenant pas compte de la casse,
+ * `myutil` désigne `MyUtil` ; le nom renvoyé est celui de `classNames`. Ne sont pas des références :
+ * les annotations (`@isTest`), les membres (`obj.MyUtil`), l'en-tête d'un trigger (objet et
+ * événements) et les types déclarés dans le fichier, une classe interne masquant une classe du même nom.
+ */
+export function findApexReferences(code: string, classNames: string[], selfName?: string): string[] {
+  const tokens = tokenizeApex(code);
+  // `trigger MonTrigger on Account (before insert) {` : rien avant la première accolade n'est une référence
+  const start = tokens[0]?.toLowerCase() === 'trigger' ? tokens.indexOf('{') + 1 : 0;
+
+  const declared = new Set(selfName ? [selfName.toLowerCase()] : []);
+  tokens.forEach((token, index) => {
+    if (DECLARATION_KEYWORDS.has(token.toLowerCase()) && tokens[index - 1] !== '.' && tokens[index + 1]) {
+      declared.add(tokens[index + 1].toLowerCase());
+    }
+  });
+
+  const referenced = new Set<string>();
+  for (let index = start; index < tokens.length; index++) {
+    const previous = tokens[index - 1];
+    if (previous !== '.' && previous !== '@') referenced.add(tokens[index].toLowerCase());
+  }
+  return classNames.filter((name) => referenced.has(name.toLowerCase()) && !declared.has(name.toLowerCase()));
+}
+
+/**
+ * Vrai pour une classe de test : annotée `@isTest` (éventuellement avec paramètres, ex:
+ * `@IsTest(SeeAllData=true)`) avant sa déclaration.
+ */
+export function isApexTestClass(code: string): boolean {
+  const tokens = tokenizeApex(code);
+  const declaration = tokens.findIndex((token) => token.toLowerCase() === 'class');
+  return tokens
+    .slice(0, declaration === -1 ? 0 : declaration)
+    .some((token, index, header) => token.toLowerCase() === 'istest' && header[index - 1] === '@');
+}
+
+/**
+ * Étiquettes personnalisées lues par un source Apex (`Label.MonEtiquette` ou `System.Label.MonEtiquette`),
+ * avec la casse utilisée dans le source.
+ */
+export function findApexLabels(code: string): string[] {
+  const tokens = tokenizeApex(code);
+  const labels = new Set<string>();
+  tokens.forEach((token, index) => {
+    if (token.toLowerCase() !== 'label' || tokens[index + 1] !== '.' || !tokens[index + 2]) return;
+    const qualifier = tokens[index - 1] === '.' ? tokens[index - 2]?.toLowerCase() : undefined;
+    if (tokens[index - 1] !== '.' || qualifier === 'system') labels.add(tokens[index + 2]);
+  });
+  return [...labels];
+}
+
+/**
+ * Ressources statiques utilisées par un source Apex : `PageReference.forResource('nom')`, URL
+ * `/resource/nom` d'une chaîne (`new PageReference('/resource/nom')`) et requêtes SOQL sur
+ * `StaticResource` filtrées par nom (`WHERE Name = 'nom'` ou `WHERE Name IN ('a', 'b')`).
+ */
+export function findApexStaticResources(code: string): string[] {
+  const { code: source, strings } = stripApexComments(code);
+  const resources = new Set(strings.flatMap(findResourceUrls));
+  for (const match of source.matchAll(/\bPageReference\s*\.\s*forResource\s*\(\s*'(\w+)'/gi)) {
+    resources.add(match[1]);
+  }
+  const query = /\bFROM\s+StaticResource\s+WHERE\s+Name\s*(?:=\s*'(\w+)'|IN\s*\(([^)]*)\))/gi;
+  for (const match of source.matchAll(query)) {
+    if (match[1]) resources.add(match[1]);
+    for (const [, name] of (match[2] ?? '').matchAll(/'(\w+)'/g)) resources.add(name);
+  }
+  return [...resources];
+}
+
+// Source sans ses commentaires, et contenu de ses chaînes
+function stripApexComments(code: string): { code: string; strings: string[] } {
+  let stripped = '';
+  const strings: string[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const next = skipCommentOrString(code, i);
+    if (next === undefined) {
+      stripped += code[i++];
+      continue;
+    }
+    if (code[i] === "'") {
+      stripped += code.slice(i, next);
+      strings.push(code.slice(i + 1, next - 1));
+    } else {
+      stripped += ' ';
+    }
+    i = next;
+  }
+  return { code: stripped, strings };
+}
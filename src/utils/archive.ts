@@ -0,0 +1,102 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import unzipper from 'unzipper';
+import { ARCHIVE_LIMITS, FORBIDDEN_EXTENSIONS } from './constants.js';
+import { UnsafeArchiveError } from './errors.js';
+import { formatSize } from './functions.js';
+import { mapSequentially } from './sequential.js';
+
+// Type de fichier Unix stocké dans les 16 bits de poids fort des attributs externes
+const S_IFMT = 0o17_0000;
+const S_IFLNK = 0o12_0000;
+
+// Nombre maximal d'entrées refusées détaillées dans le message d'erreur
+const MAX_REPORTED_ISSUES = 10;
+
+/**
+ * Liste les entrées dangereuses d'une archive : chemin absolu ou sortant du dossier d'extraction,
+ * lien symbolique, extension interdite. Le nombre de fichiers et la taille décompressée
+ * déclarée sont aussi plafonnés (`ARCHIVE_LIMITS`) contre les bombes zip.
+ */
+export function findUnsafeEntries(files: unzipper.File[]): string[] {
+  const issues: string[] = [];
+  const entries = files.filter((file) => file.type === 'File');
+  if (entries.length > ARCHIVE_LIMITS.MAX_FILES) {
+    issues.push(`trop de fichiers (${entries.length}, maximum ${ARCHIVE_LIMITS.MAX_FILES})`);
+  }
+  const totalSize = entries.reduce((sum, file) => sum + file.uncompressedSize, 0);
+  if (totalSize > ARCHIVE_LIMITS.MAX_UNCOMPRESSED_SIZE) {
+    issues.push(
+      `taille décompressée trop grande (${formatSize(totalSize)}, maximum ${formatSize(
+        ARCHIVE_LIMITS.MAX_UNCOMPRESSED_SIZE
+      )})`
+    );
+  }
+
+  for (const file of files) {
+    const entryPath = file.path.replace(/\\/g, '/');
+    if (entryPath.includes('\0')) {
+      issues.push(`${JSON.stringify(file.path)} : caractère nul dans le chemin`);
+    } else if (entryPath.startsWith('/') || /^[a-z]:/i.test(entryPath)) {
+      issues.push(`${file.path} : chemin absolu`);
+    } else if (entryPath.split('/').includes('..')) {
+      issues.push(`${file.path} : chemin sortant du dossier d'extraction`);
+    } else if (((file.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+      issues.push(`${file.path} : lien symbolique`);
+    } else if (file.type === 'File' && FORBIDDEN_EXTENSIONS.includes(path.extname(entryPath).toLowerCase())) {
+      issues.push(`${file.path} : extension interdite (${path.extname(entryPath).toLowerCase()})`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Extrait une archive après avoir validé toutes ses entrées : rien n'est écrit si l'une d'elles
+ * est refusée. La taille réellement décompressée est aussi contrôlée pendant l'extraction,
+ * les tailles déclarées dans l'archive pouvant être falsifiées.
+ */
+export async function extractZip(zipPath: string, extractPath: string): Promise<void> {
+  const directory = await unzipper.Open.file(zipPath);
+  const issues = findUnsafeEntries(directory.files);
+  if (issues.length) {
+    const details = issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `  - ${issue}`);
+    if (issues.length > MAX_REPORTED_ISSUES) details.push(`  - ... et ${issues.length - MAX_REPORTED_ISSUES} autre(s)`);
+    throw new UnsafeArchiveError(`Archive refusée, contenu non autorisé :\n${details.join('\n')}`);
+  }
+
+  const root = path.resolve(extractPath);
+  await fs.promises.mkdir(root, { recursive: true });
+  let written = 0;
+  const limitSize = (): Transform =>
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback): void {
+        written += chunk.length;
+        if (written > ARCHIVE_LIMITS.MAX_UNCOMPRESSED_SIZE) {
+          callback(
+            new UnsafeArchiveError(
+              `Archive refusée : taille décompressée supérieure à ${formatSize(ARCHIVE_LIMITS.MAX_UNCOMPRESSED_SIZE)}.`
+            )
+          );
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+  // Séquentiel : un seul fichier ouvert à la fois, et l'extraction s'arrête au premier dépassement de taille
+  await mapSequentially(directory.files, async (file) => {
+    const destination = path.resolve(root, file.path.replace(/\\/g, '/'));
+    // Déjà garanti par la validation ; vérifié à nouveau sur le chemin réellement écrit
+    if (!destination.startsWith(root + path.sep)) {
+      throw new UnsafeArchiveError(`Archive refusée : ${file.path} sort du dossier d'extraction.`);
+    }
+    if (file.type === 'Directory') {
+      await fs.promises.mkdir(destination, { recursive: true });
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+    await pipeline(file.stream(), limitSize(), fs.createWriteStream(destination, { flags: 'wx' }));
+  });
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { Parser } from 'htmlparser2';
+import { findResourceUrls } from './staticresources.js';
+
+// Références d'un bundle Aura vers d'autres éléments
+export type AuraReferences = {
+  // Noms `c:xxx` : composants, événements ou interfaces Aura, ou composants LWC
+  components: string[];
+  apexClasses: string[];
+  staticResources: string[];
+  labels: string[];
+};
+
+// Fichiers de balisage d'un bundle (composant, application, événement, interface, design, tokens)
+const MARKUP_EXTENSIONS = ['.cmp', '.app', '.evt', '.intf', '.design', '.tokens'];
+
+/**
+ * Analyse les fichiers d'un bundle Aura : balises et attributs `c:xxx` du balisage (`extends`,
+ * `type` d'un événement...), contrôleur Apex (`controller="..."`), et expressions `$Label.c.X` et
+ * `$Resource.X` du balisage comme des chaînes du JavaScript (les commentaires sont ignorés). Les URL
+ * `/resource/<nom>` du balisage, du JavaScript et des feuilles CSS désignent aussi des ressources statiques.
+ */
+export async function analyzeAuraBundle(bundleDir: string): Promise<AuraReferences> {
+  const entries = await fs.readdir(bundleDir, { withFileTypes: true });
+  const files = entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.join(bundleDir, entry.name))
+    .sort();
+
+  const components = new Set<string>();
+  const apexClasses = new Set<string>();
+  const expressions: string[] = [];
+  await Promise.all(
+    files.map(async (file) => {
+      const extension = path.extname(file).toLowerCase();
+      if (MARKUP_EXTENSIONS.includes(extension)) {
+        const markup = parseMarkup(await fs.readFile(file, 'utf8'));
+        markup.components.forEach((name) => components.add(name));
+        markup.apexClasses.forEach((name) => apexClasses.add(name));
+        expressions.push(...markup.texts);
+      } else if (extension === '.js') {
+        expressions.push(...getStringLiterals(file, await fs.readFile(file, 'utf8')));
+      } else if (extension === '.css') {
+        expressions.push((await fs.readFile(file, 'utf8')).replace(/\/\*[\s\S]*?\*\//g, ''));
+      }
+    })
+  );
+
+  const labels = new Set(expressions.flatMap((text) => [...text.matchAll(/\$Label\.c\.(\w+)/g)].map((m) => m[1])));
+  const staticResources = new Set(
+    expressions.flatMap((text) => [
+      ...[...text.matchAll(/\$Resource\.(\w+)/g)].map((m) => m[1]),
+      ...findResourceUrls(text),
+    ])
+  );
+  return {
+    components: [...components].sort(),
+    apexClasses: [...apexClasses].sort(),
+    staticResources: [...staticResources].sort(),
+    labels: [...labels].sort(),
+  };
+}
+
+function parseMarkup(markup: string): { components: string[]; apexClasses: string[]; texts: string[] } {
+  const components: string[] = [];
+  const apexClasses: string[] = [];
+  const texts: string[] = [];
+  const addComponents = (value: string): void => {
+    for (const name of value.split(',')) {
+      const match = /^\s*c:(\w+)\s*$/.exec(name);
+      if (match) components.push(match[1]);
+    }
+  };
+  const parser = new Parser(
+    {
+      onopentag(name, attributes): void {
+        addComponents(name);
+        for (const [attribute, value] of Object.entries(attributes)) {
+          // `controller="ns.MaClasse"` : seul le nom de la classe compte
+          if (attribute === 'controller') apexClasses.push(value.split('.').pop()!);
+          else addComponents(value);
+          texts.push(value);
+        }
+      },
+      ontext(text): void {
+        texts.push(text);
+      },
+    },
+    { lowerCaseTags: false, lowerCaseAttributeNames: false, recognizeSelfClosing: true }
+  );
+  parser.write(markup);
+  parser.end();
+  return { components, apexClasses, texts };
+}
+
+// Contenu des chaînes d'un contrôleur, helper ou renderer (ex: `$A.get('$Label.c.Titre')`)
+function getStringLiterals(fileName: string, code: string): string[] {
+  const source = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, false, ts.ScriptKind.JS);
+  const literals: string[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isStringLiteralLike(node)) literals.push(node.text);
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return literals;
+}
@@ -0,0 +1,99 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import kleur from 'kleur';
+import { FILENAMES } from './constants.js';
+
+// Différences fichier par fichier entre un élément téléchargé et sa version locale
+export type FileDiff = {
+  added: string[];
+  removed: string[];
+  modified: string[];
+  unchanged: number;
+};
+
+/**
+ * Compare `incoming` (extrait de l'archive) à `existing` (dans le projet).
+ * Les deux chemins peuvent être des dossiers (LWC, classe) ou des fichiers (ressource statique).
+ */
+export async function diffPaths(incoming: string, existing: string): Promise<FileDiff> {
+  const [next, current] = await Promise.all([listFiles(incoming), listFiles(existing)]);
+  const shared = [...next].filter(([relative]) => current.has(relative));
+  const identical = await Promise.all(
+    shared.map(async ([relative, file]) => {
+      const [a, b] = await Promise.all([fs.promises.readFile(file), fs.promises.readFile(current.get(relative)!)]);
+      return a.equals(b);
+    })
+  );
+  return {
+    added: [...next.keys()].filter((relative) => !current.has(relative)),
+    removed: [...current.keys()].filter((relative) => !next.has(relative)),
+    modified: shared.filter((_, index) => !identical[index]).map(([relative]) => relative),
+    unchanged: identical.filter(Boolean).length,
+  };
+}
+
+export function hasChanges(diff: FileDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.modified.length > 0;
+}
+
+export function formatFileDiff(diff: FileDiff): string {
+  const lines = [
+    ...diff.modified.map((file) => kleur.yellow(`  ~ ${file} (modifié)`)),
+    ...diff.added.map((file) => kleur.green(`  + ${file} (nouveau)`)),
+    ...diff.removed.map((file) => kleur.red(`  - ${file} (absent de la version téléchargée, sera supprimé)`)),
+  ];
+  if (diff.unchanged) lines.push(kleur.dim(`  ${diff.unchanged} fichier(s) identique(s)`));
+  return lines.join('\n');
+}
+
+/**
+ * Dossier libre `<projectRoot>/.registry-backups/AAAAMMJJ-HHMMSS` où sauvegarder les éléments
+ * remplacés par une installation. Hors des dossiers de packages, les sauvegardes ne sont ni
+ * indexées par `deploy` ni déployées par `sf project deploy`.
+ */
+export async function getBackupDirectory(projectRoot: string, date = new Date()): Promise<string> {
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  const stamp =
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return findFreePath(path.join(projectRoot, FILENAMES.BACKUPS, stamp));
+}
+
+// Sauvegarde d'un élément du projet : `<dossier de sauvegarde>/<lwc, classes...>/<nom>`
+export function getBackupPath(backupDirectory: string, destination: string): string {
+  return path.join(backupDirectory, path.basename(path.dirname(destination)), path.basename(destination));
+}
+
+// `base`, ou `base-1`, `base-2`... s'il existe déjà
+async function findFreePath(base: string, attempt = 0): Promise<string> {
+  const candidate = attempt ? `${base}-${attempt}` : base;
+  return (await exists(candidate)) ? findFreePath(base, attempt + 1) : candidate;
+}
+
+// Chemins relatifs (séparés par `/`) des fichiers sous `root` ; le nom du fichier si `root` est un fichier
+async function listFiles(root: string): Promise<Map<string, string>> {
+  const stats = await fs.promises.stat(root);
+  if (!stats.isDirectory()) return new Map([[path.basename(root), root]]);
+  const walk = async (dir: string, prefix: string): Promise<Array<[string, string]>> => {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(
+      entries
+        .sort((x, y) => x.name.localeCompare(y.name))
+        .map(async (entry): Promise<Array<[string, string]>> => {
+          const file = path.join(dir, entry.name);
+          return entry.isDirectory() ? walk(file, `${prefix}${entry.name}/`) : [[`${prefix}${entry.name}`, file]];
+        })
+    );
+    return files.flat();
+  };
+  return new Map(await walk(root, ''));
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
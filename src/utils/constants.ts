@@ -1,6 +1,8 @@
 import os from 'node:os';
 import path from 'node:path';
 import { z } from 'zod';
+import { isValidRange, isValidVersion } from './versions.js';
+import type { ItemType } from './types.js';
 
 const rawConfig = {
   SERVER_URL: 'https://registry.kiliogene.com',
@@ -48,17 +50,71 @@ export const FILENAMES = {
   DEPS: 'registry-deps.json',
   // Fichier local d'aide au déploiement généré par la commande `create`
   REGISTRY_META: 'registry-meta.json',
+  // Manifeste du projet (à côté de sfdx-project.json) : éléments du registre requis
+  MANIFEST: 'registry.json',
+  // Lockfile du projet : versions exactes et empreintes installées
+  LOCK: 'registry-lock.json',
+  // Sauvegardes de `download --conflict backup`, à la racine du projet (hors des dossiers de packages)
+  BACKUPS: '.registry-backups',
 };
 
 export const registryMetaFileSchema = z.object({
-  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Le format de la version doit être x.y.z'),
+  version: z
+    .string()
+    .refine(isValidVersion, 'Le format de la version doit être x.y.z (ou x.y.z-prerelease, ex: 1.0.0-beta.1)'),
   description: z.string().min(1, 'La description ne peut pas être vide.'),
+  // Plages semver exigées pour les dépendances détectées, par nom (ex: { "utils": "^2.0.0" })
+  dependencies: z
+    .record(z.string().refine(isValidRange, 'Plage de versions invalide (ex: ^1.2.0, ~2.0.1)'))
+    .optional(),
 });
 
 export const PATHS = {
-  STATIC_RESOURCES: 'force-app/main/default/staticresources',
-  LWC: 'force-app/main/default/lwc',
-  APEX: 'force-app/main/default/classes',
+  // Dossier de packages utilisé quand sfdx-project.json n'en déclare aucun
+  DEFAULT_PACKAGE_DIR: 'force-app',
+  // Sous-dossier habituel des métadonnées dans un dossier de packages
+  DEFAULT_SOURCE_DIR: 'main/default',
+  STATIC_RESOURCES: 'staticresources',
+};
+
+// Types d'éléments publiables sur le registre (clés du catalogue et de registry.json)
+export const ITEM_TYPES = ['component', 'class', 'aura', 'trigger', 'label', 'permission'] as const;
+
+// Dossier de chaque type sous le dossier cible (un sous-dossier par élément) et libellés affichés
+export const ITEM_TYPE_INFO: Record<ItemType, { folder: string; label: string; plural: string }> = {
+  component: { folder: 'lwc', label: 'composant LWC', plural: 'Composants LWC' },
+  class: { folder: 'classes', label: 'classe Apex', plural: 'Classes Apex' },
+  aura: { folder: 'aura', label: 'composant Aura', plural: 'Composants Aura' },
+  trigger: { folder: 'triggers', label: 'trigger Apex', plural: 'Triggers Apex' },
+  label: { folder: 'labels', label: 'étiquette personnalisée', plural: 'Étiquettes personnalisées' },
+  permission: {
+    folder: 'customPermissions',
+    label: 'autorisation personnalisée',
+    plural: 'Autorisations personnalisées',
+  },
+};
+
+export const DEFAULT_PROFILE = 'default';
+
+// Algorithmes acceptés pour le champ `hash` du catalogue, déclaré en préfixe (ex: `sha256-<empreinte>`)
+export const HASH_ALGORITHMS = ['sha256', 'sha384', 'sha512'];
+
+// Plafonds appliqués aux archives téléchargées avant extraction (protection contre les bombes zip)
+export const ARCHIVE_LIMITS = {
+  MAX_FILES: 1000,
+  MAX_UNCOMPRESSED_SIZE: 50 * 1024 * 1024,
+};
+
+// En dessous de ce délai avant expiration, `whoami` avertit l'utilisateur
+export const TOKEN_EXPIRY_WARNING_MS = 24 * 60 * 60 * 1000;
+
+export const ENV_VARS = {
+  // URL (ou nom de profil) du registre, prioritaire sur sfdx-project.json et le profil actif
+  SERVER_URL: 'REGISTRY_SERVER_URL',
+  // Token d'API longue durée (CI), prioritaire sur le token stocké dans le profil
+  TOKEN: 'REGISTRY_TOKEN',
 };
 
 export const AUTH_CONFIG_FILE_PATH = path.join(os.homedir(), '.my-registry-auth.json');
+// Clé locale (AES-256-GCM) servant à chiffrer les tokens stockés dans AUTH_CONFIG_FILE_PATH
+export const AUTH_KEY_FILE_PATH = path.join(os.homedir(), '.my-registry-auth.key');
@@ -0,0 +1,248 @@
+import { ITEM_TYPES } from './constants.js';
+import { ComponentOrClassEntry, ComponentOrClassVersion, ItemType, Registry } from './types.js';
+import { compareVersions, getMaxSatisfying, satisfiesRange } from './versions.js';
+
+// `version` est exacte une fois résolue ; dans une demande de résolution, c'est une plage semver
+export type DependencyRef = Readonly<{ type: ItemType; name: string; version: string }>;
+
+export type DependencyNode = DependencyRef & {
+  details: ComponentOrClassVersion;
+  dependencies: DependencyNode[];
+};
+
+export type ResolvedDependencies = {
+  tree: DependencyNode;
+  // Ordre d'installation : chaque élément apparaît après ses dépendances
+  installOrder: DependencyNode[];
+};
+
+export type ResolvedDependencyForest = {
+  trees: DependencyNode[];
+  installOrder: DependencyNode[];
+};
+
+export function formatRef(ref: Pick<DependencyRef, 'name' | 'version'>): string {
+  return `${ref.name}@${ref.version}`;
+}
+
+// Identifie un élément indépendamment de sa version
+export function itemKey(ref: Pick<DependencyRef, 'type' | 'name'>): string {
+  return `${ref.type}:${ref.name}`;
+}
+
+export function isItemType(type: string): type is ItemType {
+  return (ITEM_TYPES as readonly string[]).includes(type);
+}
+
+// Une plage exigée pour un élément, et la chaîne d'éléments qui l'exige
+type Requirement = { range: string; chain: string };
+
+// Une nouvelle contrainte invalide une version déjà choisie : la résolution reprend en tenant compte de celle-ci
+class ResolutionRestart extends Error {
+  public constructor(public readonly key: string, public readonly requirement: Requirement) {
+    super();
+  }
+}
+
+const MAX_RESOLUTION_ATTEMPTS = 50;
+
+export type ResolveOptions = {
+  // Versions à conserver si elles satisfont toujours les contraintes (ex: celles du lockfile)
+  preferred?: ReadonlyMap<string, string>;
+};
+
+/**
+ * Résout récursivement les `registryDependencies` d'un élément à partir du catalogue.
+ * La version de `root` et celles des dépendances peuvent être des plages semver
+ * (`^1.2.0`, `~2.0.1`) : la plus haute version publiée qui les satisfait est retenue.
+ * Échoue sur une dépendance absente du catalogue, un cycle ou des plages incompatibles.
+ */
+export function resolveDependencyTree(
+  catalog: Registry,
+  root: DependencyRef,
+  options: ResolveOptions = {}
+): ResolvedDependencies {
+  const { trees, installOrder } = resolveDependencyForest(catalog, [root], options);
+  return { tree: trees[0], installOrder };
+}
+
+/**
+ * Résout plusieurs éléments ensemble (ex: tout le manifeste du projet) : une dépendance
+ * partagée reçoit une seule version, qui doit satisfaire les plages de chacun d'eux.
+ */
+export function resolveDependencyForest(
+  catalog: Registry,
+  roots: DependencyRef[],
+  options: ResolveOptions = {}
+): ResolvedDependencyForest {
+  // Seules les contraintes ayant provoqué une reprise sont conservées d'une tentative à l'autre : celles
+  // exigées par une version abandonnée ne doivent plus peser sur la résolution
+  const pinned = new Map<string, Requirement[]>();
+  for (let attempt = 0; attempt < MAX_RESOLUTION_ATTEMPTS; attempt++) {
+    try {
+      return resolveOnce(catalog, roots, pinned, options);
+    } catch (error) {
+      if (!(error instanceof ResolutionRestart)) throw error;
+      addRequirement(pinned, error.key, error.requirement);
+    }
+  }
+  throw new Error('Impossible de résoudre les dépendances : les contraintes de versions ne convergent pas.');
+}
+
+function resolveOnce(
+  catalog: Registry,
+  roots: DependencyRef[],
+  pinned: ReadonlyMap<string, Requirement[]>,
+  options: ResolveOptions
+): ResolvedDependencyForest {
+  const requirements = new Map<string, Requirement[]>();
+  const resolved = new Map<string, DependencyNode>();
+  const installOrder: DependencyNode[] = [];
+
+  // `request.version` est une plage ; `path` contient les éléments déjà résolus qui y mènent
+  const visit = (request: DependencyRef, path: DependencyNode[]): DependencyNode => {
+    const key = itemKey(request);
+    const chain = [...path.map(formatRef), formatRef(request)].join(' → ');
+
+    if (path.some((p) => itemKey(p) === key)) {
+      throw new Error(`Dépendance cyclique détectée : ${chain}`);
+    }
+    const requirement = { range: request.version, chain };
+    addRequirement(requirements, key, requirement);
+
+    const existing = resolved.get(key);
+    if (existing) {
+      if (satisfiesRange(existing.version, request.version)) return existing;
+      throw new ResolutionRestart(key, requirement);
+    }
+
+    const entry = catalog[request.type].find((e) => e.name === request.name);
+    if (!entry) {
+      const parent = path.at(-1);
+      throw new Error(
+        `Dépendance introuvable dans le registre : ${formatRef(request)} (${request.type})` +
+          (parent ? `, requise par ${formatRef(parent)}` : '')
+      );
+    }
+    const recorded = requirements.get(key) ?? [];
+    const constraints = [
+      ...recorded,
+      ...(pinned.get(key) ?? []).filter((p) => !recorded.some((r) => sameRequirement(r, p))),
+    ];
+    const details = pickVersion(entry, constraints, options.preferred?.get(key));
+
+    const node: DependencyNode = {
+      type: request.type,
+      name: request.name,
+      version: details.version,
+      details,
+      dependencies: [],
+    };
+    const resolvedPath = [...path, node];
+    node.dependencies = details.registryDependencies.map((dep) => {
+      if (!isItemType(dep.type)) {
+        throw new Error(`Type de dépendance inconnu "${dep.type}" pour ${dep.name} (${chain}).`);
+      }
+      return visit({ type: dep.type, name: dep.name, version: dep.version }, resolvedPath);
+    });
+
+    resolved.set(key, node);
+    installOrder.push(node);
+    return node;
+  };
+
+  return { trees: roots.map((root) => visit(root, [])), installOrder };
+}
+
+function addRequirement(requirements: Map<string, Requirement[]>, key: string, requirement: Requirement): void {
+  const known = requirements.get(key) ?? [];
+  if (!known.some((r) => sameRequirement(r, requirement))) {
+    requirements.set(key, [...known, requirement]);
+  }
+}
+
+function sameRequirement(a: Requirement, b: Requirement): boolean {
+  return a.range === b.range && a.chain === b.chain;
+}
+
+function pickVersion(
+  entry: ComponentOrClassEntry,
+  requirements: Requirement[],
+  preferred: string | undefined
+): ComponentOrClassVersion {
+  const ranges = requirements.map((r) => r.range);
+  const kept = preferred ? entry.versions.find((v) => v.version === preferred) : undefined;
+  if (kept && ranges.every((range) => satisfiesRange(kept.version, range))) return kept;
+
+  const best = getMaxSatisfying(entry, ranges);
+  if (best) return best;
+
+  const published = entry.versions.map((v) => v.version).join(', ') || 'aucune';
+  if (requirements.length === 1) {
+    throw new Error(
+      `Aucune version de ${entry.name} ne satisfait ${requirements[0].range} (${requirements[0].chain}). ` +
+        `Versions publiées : ${published}.`
+    );
+  }
+  throw new Error(
+    `Conflit de versions pour ${entry.name} : aucune version publiée (${published}) ne satisfait à la fois :\n` +
+      requirements.map((r) => `  - ${r.range} (${r.chain})`).join('\n')
+  );
+}
+
+// Nœuds d'un arbre résolu, racine comprise
+export function collectTreeNodes(tree: DependencyNode): Set<DependencyNode> {
+  const nodes = new Set<DependencyNode>([tree]);
+  const walk = (node: DependencyNode): void =>
+    node.dependencies.forEach((child) => {
+      if (nodes.has(child)) return;
+      nodes.add(child);
+      walk(child);
+    });
+  walk(tree);
+  return nodes;
+}
+
+/**
+ * Représentation ASCII d'un arbre de dépendances. `annotate` permet d'ajouter
+ * une mention en fin de ligne (ex: « déjà installé »).
+ */
+export function formatDependencyTree(
+  tree: DependencyNode,
+  annotate: (node: DependencyNode) => string = (): string => ''
+): string {
+  const lines = [`${formatRef(tree)} (${tree.type})${annotate(tree)}`];
+  const walk = (node: DependencyNode, prefix: string): void => {
+    node.dependencies.forEach((child, index) => {
+      const last = index === node.dependencies.length - 1;
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${formatRef(child)} (${child.type})${annotate(child)}`);
+      walk(child, prefix + (last ? '    ' : '│   '));
+    });
+  };
+  walk(tree, '');
+  return lines.join('\n');
+}
+
+// Version publiée d'un élément qui déclare une dépendance vers un autre
+export type Dependent = DependencyRef & {
+  // Plage exigée par cette version
+  range: string;
+};
+
+/**
+ * Dépendances inverses : versions publiées du catalogue dont les `registryDependencies`
+ * mentionnent `target`, de la plus récente à la plus ancienne pour chaque élément.
+ */
+export function findDependents(catalog: Registry, target: Pick<DependencyRef, 'type' | 'name'>): Dependent[] {
+  return ITEM_TYPES.flatMap((type) =>
+    catalog[type].flatMap((entry) =>
+      [...entry.versions]
+        .sort((a, b) => compareVersions(b.version, a.version))
+        .flatMap((details) =>
+          details.registryDependencies
+            .filter((dep) => dep.type === target.type && dep.name === target.name)
+            .map((dep) => ({ type, name: entry.name, version: details.version, range: dep.version }))
+        )
+    )
+  );
+}
@@ -7,3 +7,19 @@ export class AuthError extends Error {
     this.name = 'AuthError';
   }
 }
+
+// Archive téléchargée dont le contenu ne correspond pas à l'empreinte publiée dans le catalogue
+export class IntegrityError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+// Archive téléchargée refusée avant extraction (chemin dangereux, fichier interdit, taille excessive...)
+export class UnsafeArchiveError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeArchiveError';
+  }
+}
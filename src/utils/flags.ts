@@ -0,0 +1,91 @@
+import { Flags } from '@oclif/core';
+import { ITEM_TYPES } from './constants.js';
+import { BumpType, ConflictMode, ItemType } from './types.js';
+
+// --- Flags partagés par les commandes du registre (permettent l'utilisation sans prompt, ex: en CI)
+
+export const typeFlag = Flags.option({
+  char: 't',
+  summary:
+    "Type d'élément : component (LWC), class (Apex), aura (Aura), trigger (Apex), label (étiquette personnalisée) ou permission (autorisation personnalisée).",
+  options: ITEM_TYPES,
+})();
+
+// `create` ne génère que des composants LWC et des classes Apex
+export const createTypeFlag = Flags.option({
+  char: 't',
+  summary: "Type d'élément : component (LWC) ou class (Apex).",
+  options: ['component', 'class'] as const satisfies readonly ItemType[],
+})();
+
+export const nameFlag = Flags.string({
+  char: 'n',
+  summary: "Nom de l'élément.",
+});
+
+export const itemNamesFlag = Flags.string({
+  char: 'n',
+  summary: "Nom d'un élément (répétable pour en désigner plusieurs).",
+  multiple: true,
+});
+
+export const versionFlag = Flags.string({
+  char: 'v',
+  summary: "Version de l'élément (format x.y.z).",
+});
+
+export const descriptionFlag = Flags.string({
+  summary: 'Description de la version (prioritaire sur registry-meta.json).',
+});
+
+export const targetDirFlag = Flags.directory({
+  char: 'd',
+  summary:
+    'Dossier cible (les composants LWC iront dans lwc, les classes dans classes, les triggers dans triggers...).',
+});
+
+export const bumpFlag = Flags.option({
+  summary:
+    "Publie la version suivant la dernière version du catalogue (patch, minor ou major) et l'écrit dans registry-meta.json.",
+  options: ['patch', 'minor', 'major'] as const satisfies readonly BumpType[],
+  exclusive: ['version'],
+})();
+
+export const outputFlag = Flags.file({
+  char: 'o',
+  summary: "Chemin où conserver l'archive .zip générée (inspection ou envoi manuel).",
+});
+
+export const conflictFlag = Flags.option({
+  summary:
+    'Si un élément existe déjà : skip (ignorer), overwrite (remplacer), backup (sauvegarder puis remplacer) ou prompt (demander après un résumé des différences).',
+  options: ['skip', 'overwrite', 'backup', 'prompt'] as const satisfies readonly ConflictMode[],
+  default: 'skip',
+})();
+
+export const graphFormatFlag = Flags.option({
+  char: 'f',
+  summary: 'Format de sortie : ascii (arbre), mermaid, dot (Graphviz) ou json.',
+  options: ['ascii', 'mermaid', 'dot', 'json'] as const,
+  default: 'ascii',
+})();
+
+export const dependsOnFlag = Flags.string({
+  summary: "Ne garde que les éléments dont la dernière version dépend directement de l'élément nommé.",
+});
+
+export const usernameFlag = Flags.string({
+  char: 'u',
+  summary: "Nom d'utilisateur du registre.",
+});
+
+export const serverFlag = Flags.string({
+  char: 's',
+  summary:
+    'URL ou nom de profil du registre (prioritaire sur REGISTRY_SERVER_URL, sfdx-project.json et le profil actif).',
+});
+
+export const noPromptFlag = Flags.boolean({
+  summary: 'Désactive les prompts interactifs : toute valeur manquante provoque une erreur.',
+  default: false,
+});
@@ -2,9 +2,21 @@ import path from 'node:path';
 import fs from 'node:fs';
 import fsExtra from 'fs-extra';
 import fetch, { type RequestInit, type Response } from 'node-fetch';
-import { ComponentOrClassEntry, Registry, registrySchema } from './types.js';
-import { AUTH_CONFIG_FILE_PATH } from './constants.js';
+import {
+  AuthTokens,
+  ComponentOrClassEntry,
+  ItemType,
+  JwtPayload,
+  jwtPayloadSchema,
+  Registry,
+  registrySchema,
+  ResolvedRegistry,
+} from './types.js';
+import { ITEM_TYPE_INFO } from './constants.js';
 import { AuthError } from './errors.js';
+import { getDefaultPackageDirectory, readPackageDirectories } from './project.js';
+import { saveProfileTokens } from './profiles.js';
+import { promptCredentials } from './prompts.js';
 
 export function findProjectRoot(currentDir: string): string {
   let dir = currentDir;
@@ -18,9 +30,17 @@ export function findProjectRoot(currentDir: string): string {
   return dir;
 }
 
-export async function fetchCatalog(this: { error: (msg: string) => never }, server: string): Promise<Registry> {
+// Dossier cible du dossier de packages par défaut de sfdx-project.json
+export async function getDefaultTargetDirectory(projectRoot = findProjectRoot(process.cwd())): Promise<string> {
+  return getDefaultPackageDirectory(await readPackageDirectories(projectRoot)).targetDir;
+}
+
+export async function fetchCatalog(
+  this: { error: (msg: string) => never },
+  registry: ResolvedRegistry
+): Promise<Registry> {
   try {
-    const res   = await authedFetch.call(this, `${server}/catalog`);
+    const res   = await authedFetch(registry, '/catalog');
     if (!res.ok) throw new Error(`Erreur ${res.status} lors de la récupération du registre`);
     const json  = await res.json();
     const check = registrySchema.safeParse(json);
@@ -35,16 +55,15 @@ export async function fetchCatalog(this: { error: (msg: string) => never }, serv
 }
 
 
-export function getCleanTypeLabel(type: 'component' | 'class', plural = true): string {
-  if (type === 'component') return plural ? 'Composants LWC' : 'composant LWC';
-  return plural ? 'Classes Apex' : 'classe Apex';
+export function getCleanTypeLabel(type: ItemType, plural = true): string {
+  return plural ? ITEM_TYPE_INFO[type].plural : ITEM_TYPE_INFO[type].label;
 }
 
 
 export function getNonEmptyItemsOrError(
   this: { error: (msg: string) => never },
   catalog: Registry,
-  type: 'component' | 'class',
+  type: ItemType,
   label: string,
   action: string
 ): ComponentOrClassEntry[] {
@@ -78,11 +97,8 @@ export async function safeRemove(this: { error: (msg: string) => never }, fileOr
 }
 
 
-export function getDestination(targetDir: string, itemType: 'component' | 'class', itemName: string): string {
-  if (itemType === 'component') {
-    return path.join(targetDir, 'lwc', itemName);
-  }
-  return path.join(targetDir, 'classes', itemName);
+export function getDestination(targetDir: string, itemType: ItemType, itemName: string): string {
+  return path.join(targetDir, ITEM_TYPE_INFO[itemType].folder, itemName);
 }
 
 export async function fileExistsAndIsFile(filePath: string): Promise<boolean> {
@@ -94,54 +110,173 @@ export async function fileExistsAndIsFile(filePath: string): Promise<boolean> {
   }
 }
 
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} Ko`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} Mo`;
+}
+
 
-async function getAuthToken(): Promise<string | undefined> {
+/**
+ * Décode (sans vérifier la signature) la charge utile d'un JWT.
+ */
+export function decodeJwtPayload(token: string): JwtPayload {
+  const [, payload] = token.split('.');
+  if (!payload) throw new Error('Token JWT mal formé.');
+  let json: unknown;
   try {
-    const configContent = await fs.promises.readFile(AUTH_CONFIG_FILE_PATH, 'utf-8');
-    const config: unknown = JSON.parse(configContent);
-    if (config && typeof config === 'object' && 'token' in config && typeof config.token === 'string') {
-      return config.token;
-    }
-    return undefined;
-  } catch (error) {    
-    return undefined;
+    json = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Token JWT mal formé.');
+  }
+  const check = jwtPayloadSchema.safeParse(json);
+  if (!check.success) throw new Error('Charge utile du token JWT invalide.');
+  return check.data;
+}
+
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+
+export async function requestLogin(serverUrl: string, username: string, password: string): Promise<AuthTokens> {
+  const res = await fetch(`${serverUrl}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const body = (await res.json()) as { token?: string; refreshToken?: string; error?: string };
+  if (!res.ok || !body.token) {
+    throw new Error(
+      `Échec de l'authentification (Status: ${res.status}) - Erreur serveur: ${body.error ?? 'Aucune précision'}`
+    );
+  }
+  return { token: body.token, refreshToken: body.refreshToken };
+}
+
+
+/**
+ * Révoque un token auprès du serveur, sans tenter de le renouveler : un token refusé (401),
+ * expiré ou déjà révoqué, n'a plus rien à révoquer.
+ */
+export async function requestLogout(serverUrl: string, token: string): Promise<void> {
+  const res = await fetch(`${serverUrl}/auth/logout`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok && res.status !== 401) {
+    throw new Error(`Révocation refusée par le serveur (HTTP ${res.status}).`);
   }
 }
 
 
 export async function authedFetch(
-  url: string,
+  registry: ResolvedRegistry,
+  route: string,
   options: RequestInit = {}
 ): Promise<Response> {
-  const token = await getAuthToken();
-
-  if (!token) {
+  if (!registry.token) {
     throw new AuthError(
       'no_token',
-      'Vous n’êtes pas authentifié. Lancez « sf registry login ».'
+      `Vous n’êtes pas authentifié auprès de ${registry.url}. Lancez « sf registry login ».`
     );
   }
 
-  const res = await fetch(url, {
+  // Un token déjà expiré est renouvelé avant l'envoi, pour ne pas transmettre le corps de la requête pour rien
+  if (isTokenExpired(registry.token)) {
+    if (!(await renewToken(registry))) {
+      throw new AuthError('token_expired', `Session expirée sur ${registry.url}. Lancez « sf registry login ».`);
+    }
+    return sendAuthed(registry, route, options, true);
+  }
+  return sendAuthed(registry, route, options, false);
+}
+
+
+async function sendAuthed(
+  registry: ResolvedRegistry,
+  route: string,
+  options: RequestInit,
+  renewalAttempted: boolean
+): Promise<Response> {
+  const res = await fetch(`${registry.url}${route}`, {
     ...options,
-    headers: { ...options.headers, Authorization: `Bearer ${token}` },
+    headers: { ...options.headers, Authorization: `Bearer ${registry.token ?? ''}` },
   });
 
   if (res.status !== 401) return res;
 
-  let msg = 'Accès non autorisé (401).';
+  const error = await readAuthError(res);
+  // Le token a expiré en cours de commande : on le renouvelle puis on rejoue la requête une seule fois
+  if (error.code === 'token_expired' && !renewalAttempted && (await renewToken(registry))) {
+    return sendAuthed(registry, route, options, true);
+  }
+  throw error;
+}
+
+
+async function readAuthError(res: Response): Promise<AuthError> {
   try {
-    const body = (await res.json()) as { code: string; error: string };
-    if (body.code === 'token_expired') {
-      msg = body.error 
-      throw new AuthError('token_expired', msg);
-    }
-    if (body.code === 'token_invalid') {
-      msg = body.error 
-      throw new AuthError('token_invalid', msg);
-    }
+    const body = (await res.json()) as { code?: string; error?: string };
+    const msg = body.error ?? 'Accès non autorisé (401).';
+    return new AuthError(body.code === 'token_expired' ? 'token_expired' : 'token_invalid', msg);
   } catch {
     /* parsing JSON raté : on garde le message générique */
+    return new AuthError('token_invalid', 'Accès non autorisé (401).');
+  }
+}
+
+
+function isTokenExpired(token: string): boolean {
+  try {
+    const { exp } = decodeJwtPayload(token);
+    return exp !== undefined && exp * 1000 <= Date.now();
+  } catch {
+    // Token opaque : seul le serveur peut dire s'il a expiré
+    return false;
+  }
+}
+
+
+/**
+ * Obtient un nouveau token via le refresh token, sinon par une reconnexion interactive
+ * si un terminal est disponible. Les nouveaux tokens sont sauvegardés dans le profil.
+ */
+async function renewToken(registry: ResolvedRegistry): Promise<boolean> {
+  let tokens = registry.refreshToken ? await refreshTokens(registry.url, registry.refreshToken) : undefined;
+  if (!tokens && registry.interactive) {
+    const { username, password } = await promptCredentials(
+      undefined,
+      `Session expirée sur ${registry.url}. Nom d'utilisateur du registre :`
+    );
+    tokens = await requestLogin(registry.url, username, password);
+  }
+  if (!tokens) return false;
+
+  Object.assign(registry, { token: tokens.token, refreshToken: tokens.refreshToken ?? registry.refreshToken });
+  if (registry.profile && registry.tokenSource !== 'env') {
+    await saveProfileTokens(registry.profile, registry.url, tokens);
+  }
+  return true;
+}
+
+
+async function refreshTokens(serverUrl: string, refreshToken: string): Promise<AuthTokens | undefined> {
+  try {
+    const res = await fetch(`${serverUrl}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (!res.ok) return undefined;
+    const body = (await res.json()) as { token?: string; refreshToken?: string };
+    return body.token ? { token: body.token, refreshToken: body.refreshToken } : undefined;
+  } catch {
+    return undefined;
   }
-  throw new AuthError('token_invalid', msg);
 }
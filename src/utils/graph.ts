@@ -0,0 +1,210 @@
+import kleur from 'kleur';
+import { DependencyRef, isItemType, itemKey } from './dependencies.js';
+import { getItemDependencies, LocalDependency, ProjectIndex } from './scanner.js';
+import { mapSequentially } from './sequential.js';
+import { getMaxSatisfying } from './versions.js';
+import { ItemType, Registry, RegistryLock } from './types.js';
+
+// `registry` : élément publié (ou installé depuis le registre) ; `local` : élément propre au projet
+export type GraphNodeOrigin = 'local' | 'registry';
+
+export type GraphNode = {
+  id: string;
+  type: ItemType;
+  name: string;
+  version?: string;
+  origin: GraphNodeOrigin;
+  // Dépendance absente du catalogue (ou sans version satisfaisant la plage demandée)
+  missing?: boolean;
+};
+
+export type GraphEdge = {
+  from: string;
+  to: string;
+  // Plage de versions demandée (dépendances du registre)
+  range?: string;
+  // L'arête fait partie d'un cycle
+  cycle: boolean;
+};
+
+export type DependencyGraph = {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Chaque cycle détecté, sous forme de chemin d'identifiants (le premier est répété à la fin)
+  cycles: string[][];
+};
+
+/**
+ * Graphe des dépendances d'un élément du projet. Les éléments présents dans
+ * registry-lock.json sont marqués comme venant du registre.
+ */
+export async function buildLocalGraph(
+  index: ProjectIndex,
+  root: LocalDependency,
+  lock?: RegistryLock
+): Promise<DependencyGraph> {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const visit = async (item: LocalDependency): Promise<void> => {
+    const id = itemKey(item);
+    if (nodes.has(id)) return;
+    const locked = lock?.items[id];
+    nodes.set(id, {
+      id,
+      type: item.type,
+      name: item.name,
+      ...(locked ? { version: locked.version, origin: 'registry' } : { origin: 'local' }),
+    });
+    const dependencies = await getItemDependencies(index, item.name, item.type);
+    // Séquentiel : l'ordre des nœuds suit celui des dépendances détectées
+    await mapSequentially(dependencies, async (dep) => {
+      edges.push({ from: id, to: itemKey(dep), cycle: false });
+      await visit(dep);
+    });
+  };
+  await visit(root);
+  return markCycles({ root: itemKey(root), nodes: [...nodes.values()], edges, cycles: [] });
+}
+
+/**
+ * Graphe des `registryDependencies` d'un élément publié. Chaque plage est résolue
+ * indépendamment vers la plus haute version publiée qui la satisfait : contrairement à
+ * `resolveDependencyTree`, un cycle ou une dépendance introuvable est affiché au lieu d'échouer.
+ */
+export function buildRegistryGraph(catalog: Registry, root: DependencyRef): DependencyGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const visit = (request: DependencyRef): string => {
+    const entry = catalog[request.type].find((e) => e.name === request.name);
+    const details = entry && getMaxSatisfying(entry, [request.version]);
+    const version = details?.version ?? request.version;
+    const id = `${itemKey(request)}@${version}`;
+    if (nodes.has(id)) return id;
+    nodes.set(id, {
+      id,
+      type: request.type,
+      name: request.name,
+      version,
+      origin: 'registry',
+      ...(details ? {} : { missing: true }),
+    });
+    for (const dep of details?.registryDependencies ?? []) {
+      if (!isItemType(dep.type)) continue;
+      const to = visit({ type: dep.type, name: dep.name, version: dep.version });
+      edges.push({ from: id, to, range: dep.version, cycle: false });
+    }
+    return id;
+  };
+  const rootId = visit(root);
+  return markCycles({ root: rootId, nodes: [...nodes.values()], edges, cycles: [] });
+}
+
+// Parcours en profondeur depuis la racine : une arête vers un nœud du chemin courant ferme un cycle
+function markCycles(graph: DependencyGraph): DependencyGraph {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const walk = (id: string, path: string[]): void => {
+    for (const edge of graph.edges.filter((e) => e.from === id)) {
+      const start = path.indexOf(edge.to);
+      if (start !== -1) {
+        cycles.push([...path.slice(start), edge.to]);
+      } else if (!done.has(edge.to)) {
+        walk(edge.to, [...path, edge.to]);
+      }
+    }
+    done.add(id);
+  };
+  walk(graph.root, [graph.root]);
+
+  const inCycle = new Set(cycles.flatMap((cycle) => cycle.slice(1).map((to, i) => `${cycle[i]}→${to}`)));
+  return {
+    ...graph,
+    edges: graph.edges.map((edge) => ({ ...edge, cycle: inCycle.has(`${edge.from}→${edge.to}`) })),
+    cycles,
+  };
+}
+
+function nodeLabel(node: GraphNode): string {
+  return `${node.name}${node.version ? `@${node.version}` : ''} (${node.type})`;
+}
+
+/**
+ * Arbre ASCII : un nœud déjà développé plus haut n'est pas répété, une arête qui
+ * referme un cycle est signalée en rouge.
+ */
+export function formatGraphAscii(graph: DependencyGraph): string {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const describe = (node: GraphNode): string =>
+    `${nodeLabel(node)} ${node.origin === 'registry' ? kleur.magenta('[registre]') : kleur.cyan('[local]')}` +
+    (node.missing ? kleur.red(' introuvable dans le registre') : '');
+
+  const lines = [describe(byId.get(graph.root)!)];
+  const expanded = new Set([graph.root]);
+  const walk = (id: string, prefix: string, path: string[]): void => {
+    const children = graph.edges.filter((edge) => edge.from === id);
+    children.forEach((edge, index) => {
+      const last = index === children.length - 1;
+      const closesCycle = path.includes(edge.to);
+      const repeated = !closesCycle && expanded.has(edge.to);
+      const suffix = closesCycle ? kleur.red(' ⟲ cycle') : repeated ? kleur.dim(' (voir plus haut)') : '';
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${describe(byId.get(edge.to)!)}${suffix}`);
+      if (closesCycle || repeated) return;
+      expanded.add(edge.to);
+      walk(edge.to, prefix + (last ? '    ' : '│   '), [...path, edge.to]);
+    });
+  };
+  walk(graph.root, '', [graph.root]);
+
+  for (const cycle of graph.cycles) {
+    const chain = cycle.map((id) => nodeLabel(byId.get(id)!)).join(' → ');
+    lines.push(kleur.red(`⚠️  Dépendance cyclique : ${chain}`));
+  }
+  return lines.join('\n');
+}
+
+export function formatGraphMermaid(graph: DependencyGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const escape = (text: string): string => text.replace(/"/g, '#quot;');
+  const lines = ['flowchart TD'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.id)!}["${escape(nodeLabel(node))}"]:::${node.missing ? 'missing' : node.origin}`);
+  }
+  graph.edges.forEach((edge) => {
+    const label = edge.cycle ? 'cycle' : edge.range;
+    lines.push(`  ${ids.get(edge.from)!} -->${label ? `|"${escape(label)}"|` : ''} ${ids.get(edge.to)!}`);
+  });
+  lines.push(
+    '  classDef local fill:#e3f2fd,stroke:#1e88e5,color:#0d47a1',
+    '  classDef registry fill:#f3e5f5,stroke:#8e24aa,color:#4a148c',
+    '  classDef missing fill:#ffebee,stroke:#e53935,color:#b71c1c,stroke-dasharray:4'
+  );
+  const cycleLinks = graph.edges.flatMap((edge, index) => (edge.cycle ? [index] : []));
+  if (cycleLinks.length) lines.push(`  linkStyle ${cycleLinks.join(',')} stroke:#e53935,stroke-width:2px`);
+  return lines.join('\n');
+}
+
+export function formatGraphDot(graph: DependencyGraph): string {
+  const quote = (text: string): string => JSON.stringify(text);
+  const fill = (node: GraphNode): string =>
+    node.missing ? '#ffebee' : node.origin === 'registry' ? '#f3e5f5' : '#e3f2fd';
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+  for (const node of graph.nodes) {
+    const label = `${nodeLabel(node)}\n${node.origin === 'registry' ? 'registre' : 'local'}`;
+    lines.push(`  ${quote(node.id)} [label=${quote(label)}, fillcolor=${quote(fill(node))}];`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = edge.cycle
+      ? ['color="#e53935"', 'fontcolor="#e53935"', 'penwidth=2', 'label="cycle"']
+      : edge.range
+      ? [`label=${quote(edge.range)}`]
+      : [];
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
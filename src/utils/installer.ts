@@ -0,0 +1,343 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import { createWriteStream } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import fsExtra from 'fs-extra';
+import { extractZip } from './archive.js';
+import { authedFetch, getDestination } from './functions.js';
+import { DependencyRef, formatRef } from './dependencies.js';
+import { IntegrityError } from './errors.js';
+import { diffPaths, formatFileDiff, getBackupDirectory, getBackupPath, hasChanges } from './conflicts.js';
+import { promptConflictResolution } from './prompts.js';
+import { verifyFileIntegrity } from './integrity.js';
+import { FILENAMES } from './constants.js';
+import { mapSequentially } from './sequential.js';
+import { ConflictMode, ItemType, registryDepsFileSchema, ResolvedRegistry } from './types.js';
+
+// Sorties de la commande appelante (download, install, ...)
+type InstallContext = {
+  log: (msg: string) => void;
+  warn: (msg: string) => unknown;
+  error: (msg: string) => never;
+};
+
+// Élément à installer et empreinte publiée de son archive (`sha256-...`)
+export type InstallTarget = DependencyRef & { readonly hash: string };
+
+// Archive d'un élément extraite et validée dans le dossier temporaire
+type StagedItem = {
+  ref: InstallTarget;
+  itemDir: string;
+  resourcesDir: string;
+  staticResources: string[];
+  // Classes de test livrées dans l'archive (marquées `test` dans registry-deps.json)
+  tests: Array<{ name: string; type: ItemType; dir: string }>;
+};
+
+// Dossier d'un élément ou fichier de ressource statique à placer dans le projet
+type StagedEntry = {
+  label: string;
+  installedPath: string;
+  source: string;
+  destination: string;
+};
+
+type Placement = StagedEntry & {
+  action: 'create' | 'overwrite' | 'backup';
+  backup?: string;
+};
+
+export type InstallSummary = {
+  // Chemins placés dans le projet : nom de l'élément ou `staticresources/<fichier>`
+  installed: string[];
+  // Parmi `installed`, ceux qui ont remplacé une version locale
+  replaced: string[];
+  // Sauvegardes horodatées des versions locales remplacées (`--conflict backup`)
+  backups: string[];
+  // Déjà présents dans le projet et conservés
+  skipped: string[];
+};
+
+export type InstallOptions = {
+  // Conduite à tenir si l'élément ou une ressource statique existe déjà dans le projet (`skip` par défaut)
+  conflict?: ConflictMode;
+  // Ne place pas les classes de test livrées avec les éléments
+  skipTests?: boolean;
+  // Remplace une version locale si, et seulement si, elle diffère de l'archive téléchargée (prioritaire sur `conflict`)
+  replaceChanged?: boolean;
+  // Racine du projet, sous laquelle `.registry-backups` reçoit les sauvegardes (`backup`) ; dossier courant par défaut
+  backupRoot?: string;
+};
+
+export async function isInstalled(ref: DependencyRef, targetDirectory: string): Promise<boolean> {
+  return fileExists(getDestination(targetDirectory, ref.type, ref.name));
+}
+
+/**
+ * Télécharge, vérifie et extrait tous les éléments dans un dossier temporaire, puis les place
+ * ensemble dans `targetDirectory`. Tout ou rien : si une étape échoue, le projet est restauré
+ * dans son état initial. Les conflits (`options.conflict`) sont tranchés avant toute écriture.
+ */
+export async function installNodes(
+  this: InstallContext,
+  registry: ResolvedRegistry,
+  refs: InstallTarget[],
+  targetDirectory: string,
+  options: InstallOptions = {}
+): Promise<InstallSummary> {
+  const summary: InstallSummary = { installed: [], replaced: [], backups: [], skipped: [] };
+  if (!refs.length) return summary;
+  const stagingDir = path.join(os.tmpdir(), `registry-download-${randomUUID()}`);
+  try {
+    // Séquentiel : les téléchargements sont affichés dans l'ordre d'installation
+    const staged = await mapSequentially(refs, (ref) => stageNode.call(this, registry, ref, stagingDir));
+    const { placements, skipped } = await planPlacements.call(this, staged, targetDirectory, options);
+    await commitPlacements(placements);
+
+    summary.installed = placements.map((p) => p.installedPath);
+    summary.replaced = placements.filter((p) => p.action !== 'create').map((p) => p.installedPath);
+    summary.backups = placements.flatMap((p) => (p.backup ? [p.backup] : []));
+    summary.skipped = skipped.map((entry) => entry.installedPath);
+    this.log(formatInstallSummary(placements, skipped));
+    return summary;
+  } finally {
+    await removeTemporary.call(this, stagingDir);
+  }
+}
+
+// Appelée depuis des blocs `finally` : un échec ne doit pas masquer l'erreur d'installation ou de restauration
+async function removeTemporary(this: InstallContext, tempPath: string): Promise<void> {
+  try {
+    await fsExtra.remove(tempPath);
+  } catch (error) {
+    this.warn(`⚠️  Impossible de supprimer ${tempPath} : ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function downloadZip(this: InstallContext, registry: ResolvedRegistry, ref: DependencyRef): Promise<string> {
+  const route = `/download/${ref.type}/${ref.name}/${ref.version}`;
+  const zipPath = path.join(os.tmpdir(), `${ref.name}-${ref.version}-${randomUUID()}.zip`);
+  this.log(`📥 Téléchargement de ${ref.name}@${ref.version} ...`);
+
+  const res = await authedFetch(registry, route);
+  if (!res.ok) throw new Error(`Erreur HTTP ${res.status}: ${res.statusText}`);
+  if (!res.body) throw new Error('Réponse HTTP sans body !');
+
+  const fileStream = createWriteStream(zipPath);
+  await new Promise<void>((resolve, reject) => {
+    res.body!.pipe(fileStream).on('error', reject).on('finish', resolve);
+  });
+
+  return zipPath;
+}
+
+// Rien n'est extrait d'une archive qui ne correspond pas à ce que le catalogue a publié
+async function verifyArchive(this: InstallContext, zipPath: string, ref: InstallTarget): Promise<void> {
+  try {
+    await verifyFileIntegrity(zipPath, ref.hash);
+  } catch (error) {
+    if (error instanceof IntegrityError) {
+      throw new IntegrityError(`Archive de ${formatRef(ref)} refusée. ${error.message}`);
+    }
+    throw error;
+  }
+  this.log(`🔒 Empreinte de ${formatRef(ref)} vérifiée.`);
+}
+
+async function stageNode(
+  this: InstallContext,
+  registry: ResolvedRegistry,
+  ref: InstallTarget,
+  stagingDir: string
+): Promise<StagedItem> {
+  const extractDir = path.join(stagingDir, `${ref.type}-${ref.name}`);
+  const zipPath = await downloadZip.call(this, registry, ref);
+  try {
+    await verifyArchive.call(this, zipPath, ref);
+    await extractZip(zipPath, extractDir);
+  } finally {
+    await removeTemporary.call(this, zipPath);
+  }
+
+  // Les autres dossiers éventuellement présents dans l'archive sont des dépendances,
+  // installées séparément à leur version résolue
+  const itemDir = path.join(extractDir, ref.name);
+  if (!(await fileExists(itemDir))) {
+    throw new Error(`L'archive téléchargée ne contient pas "${ref.name}".`);
+  }
+  const resourcesDir = path.join(extractDir, 'staticresources');
+  const staticResources = (await fileExists(resourcesDir)) ? await fs.promises.readdir(resourcesDir) : [];
+  return { ref, itemDir, resourcesDir, staticResources, tests: await findBundledTests(extractDir) };
+}
+
+// Une archive publiée avant l'ajout des tests, ou sans registry-deps.json lisible, n'en livre aucun
+async function findBundledTests(extractDir: string): Promise<StagedItem['tests']> {
+  let deps;
+  try {
+    deps = registryDepsFileSchema.safeParse(
+      JSON.parse(await fs.promises.readFile(path.join(extractDir, FILENAMES.DEPS), 'utf8'))
+    );
+  } catch {
+    return [];
+  }
+  if (!deps.success) return [];
+  const tests = deps.data
+    .filter((dep) => dep.test)
+    .map((dep) => ({ name: dep.name, type: dep.type, dir: path.join(extractDir, dep.name) }));
+  const present = await Promise.all(tests.map((test) => fileExists(test.dir)));
+  return tests.filter((_, index) => present[index]);
+}
+
+/**
+ * Décide, pour chaque dossier et ressource statique extraits, s'il est créé, remplacé, sauvegardé
+ * puis remplacé ou conservé. Les prompts du mode `prompt` ont lieu ici, avant toute écriture.
+ */
+async function planPlacements(
+  this: InstallContext,
+  staged: StagedItem[],
+  targetDirectory: string,
+  options: InstallOptions
+): Promise<{ placements: Placement[]; skipped: StagedEntry[] }> {
+  const entries: StagedEntry[] = staged.flatMap((item) => [
+    {
+      label: `${item.ref.type} "${item.ref.name}"`,
+      installedPath: item.ref.name,
+      source: item.itemDir,
+      destination: getDestination(targetDirectory, item.ref.type, item.ref.name),
+    },
+    ...(options.skipTests ? [] : item.tests).map((test) => ({
+      label: `Test ${test.type} "${test.name}"`,
+      installedPath: test.name,
+      source: test.dir,
+      destination: getDestination(targetDirectory, test.type, test.name),
+    })),
+    ...item.staticResources.map((file) => ({
+      label: `Staticresource "${file}"`,
+      installedPath: path.join('staticresources', file),
+      source: path.join(item.resourcesDir, file),
+      destination: path.join(targetDirectory, 'staticresources', file),
+    })),
+  ]);
+
+  // Une ressource statique livrée par plusieurs éléments n'est placée qu'une fois
+  const unique = entries.filter(
+    (entry, index) => entries.findIndex((other) => other.destination === entry.destination) === index
+  );
+  // Séquentiel : les prompts du mode `prompt` sont posés un par un
+  const actions = await mapSequentially(unique, (entry) => resolveConflict.call(this, entry, options));
+  // Un seul dossier horodaté pour toutes les sauvegardes de l'installation
+  const backupDirectory = actions.includes('backup')
+    ? await getBackupDirectory(options.backupRoot ?? process.cwd())
+    : undefined;
+
+  const placements: Placement[] = [];
+  const skipped: StagedEntry[] = [];
+  unique.forEach((entry, index) => {
+    const action = actions[index];
+    if (action === 'skip') {
+      skipped.push(entry);
+      return;
+    }
+    const backup =
+      backupDirectory && action === 'backup' ? getBackupPath(backupDirectory, entry.destination) : undefined;
+    placements.push({ ...entry, action, backup });
+  });
+  return { placements, skipped };
+}
+
+async function resolveConflict(
+  this: InstallContext,
+  entry: StagedEntry,
+  options: InstallOptions
+): Promise<Placement['action'] | 'skip'> {
+  if (!(await fileExists(entry.destination))) return 'create';
+
+  let resolution = options.replaceChanged ? 'overwrite' : options.conflict ?? 'skip';
+  if (options.replaceChanged === true || resolution === 'prompt') {
+    const diff = await diffPaths(entry.source, entry.destination);
+    if (!hasChanges(diff)) {
+      this.log(`⏭️  ${entry.label} est identique à la version locale.`);
+      return 'skip';
+    }
+    if (resolution === 'prompt') {
+      this.log(`\n📝 ${entry.label} existe déjà, différences avec la version téléchargée :\n${formatFileDiff(diff)}`);
+      resolution = await promptConflictResolution(entry.label);
+    }
+  }
+  if (resolution === 'skip') this.warn(`⚠️  ${entry.label} existe déjà. Extraction ignorée.`);
+  return resolution;
+}
+
+/**
+ * Place tous les éléments, ou aucun : chaque version locale remplacée est d'abord mise de côté
+ * (dans sa sauvegarde horodatée en mode `backup`), et chaque opération est annulée dans l'ordre
+ * inverse si l'une d'elles échoue.
+ */
+async function commitPlacements(placements: Placement[]): Promise<void> {
+  const journal: Array<{ destination: string; aside?: string; keep: boolean }> = [];
+  try {
+    // Séquentiel : le journal doit refléter exactement les opérations faites, pour les annuler
+    await mapSequentially(placements, async (placement) => {
+      const aside =
+        placement.action === 'create'
+          ? undefined
+          : placement.backup ?? `${placement.destination}.registry-backup-${randomUUID()}`;
+      await fs.promises.mkdir(path.dirname(placement.destination), { recursive: true });
+      if (placement.backup) await fs.promises.mkdir(path.dirname(placement.backup), { recursive: true });
+      if (aside) await fs.promises.rename(placement.destination, aside);
+      journal.push({ destination: placement.destination, aside, keep: Boolean(placement.backup) });
+      await fsExtra.move(placement.source, placement.destination);
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const failures = await rollback(journal);
+    if (failures.length) {
+      throw new Error(
+        `${reason}\nLa restauration du projet est incomplète, à vérifier manuellement :\n${failures.join('\n')}`
+      );
+    }
+    throw new Error(`${reason}\nAucun fichier du projet n'a été modifié (installation annulée).`);
+  }
+  // Les versions mises de côté temporairement ne servent plus
+  await Promise.all(journal.filter((step) => step.aside && !step.keep).map((step) => fsExtra.remove(step.aside!)));
+}
+
+// Retourne les opérations qui n'ont pas pu être annulées
+async function rollback(journal: Array<{ destination: string; aside?: string }>): Promise<string[]> {
+  const failures: string[] = [];
+  // Séquentiel, dans l'ordre inverse des opérations
+  await mapSequentially([...journal].reverse(), async (step) => {
+    try {
+      await fsExtra.remove(step.destination);
+      if (step.aside) await fs.promises.rename(step.aside, step.destination);
+    } catch (error) {
+      failures.push(
+        `  - ${step.destination}${step.aside ? ` (ancienne version : ${step.aside})` : ''} : ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  });
+  return failures;
+}
+
+function formatInstallSummary(placements: Placement[], skipped: StagedEntry[]): string {
+  const lines = placements.map((p) => {
+    const where = path.dirname(p.destination);
+    if (p.action === 'create') return `  ✅ ${p.label} installé dans ${where}`;
+    if (p.action === 'backup') return `  🗂️  ${p.label} remplacé dans ${where} (sauvegarde : ${p.backup!})`;
+    return `  🔄 ${p.label} remplacé dans ${where}`;
+  });
+  lines.push(...skipped.map((entry) => `  ⏭️  ${entry.label} conservé (déjà présent)`));
+  return `📋 Résumé de l'installation :\n${lines.join('\n')}`;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,48 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { HASH_ALGORITHMS } from './constants.js';
+import { IntegrityError } from './errors.js';
+
+export type Integrity = { algorithm: string; digest: string };
+
+/**
+ * Lit une empreinte `<algorithme>-<empreinte>` (ex: `sha256-47DEQpj8...`). L'algorithme est
+ * déclaré dans la chaîne pour pouvoir en changer sans casser les versions déjà publiées.
+ */
+export function parseIntegrity(hash: string): Integrity {
+  const match = /^([a-z0-9]+)-(\S+)$/i.exec(hash.trim());
+  if (!match) {
+    throw new IntegrityError(
+      `Empreinte "${hash}" invalide : format attendu <algorithme>-<empreinte> (ex: sha256-...).`
+    );
+  }
+  const algorithm = match[1].toLowerCase();
+  if (!HASH_ALGORITHMS.includes(algorithm)) {
+    throw new IntegrityError(
+      `Algorithme d'empreinte "${algorithm}" non pris en charge (acceptés : ${HASH_ALGORITHMS.join(', ')}).`
+    );
+  }
+  return { algorithm, digest: match[2] };
+}
+
+export async function hashFile(filePath: string, algorithm: string): Promise<Buffer> {
+  const hash = createHash(algorithm);
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest();
+}
+
+/**
+ * Échoue si le fichier ne correspond pas à l'empreinte attendue.
+ */
+export async function verifyFileIntegrity(filePath: string, expected: string): Promise<void> {
+  const { algorithm, digest } = parseIntegrity(expected);
+  const actual = await hashFile(filePath, algorithm);
+  // L'empreinte peut être publiée en base64 (comme l'attribut HTML `integrity`) ou en hexadécimal
+  if (digest !== actual.toString('base64') && digest.toLowerCase() !== actual.toString('hex')) {
+    throw new IntegrityError(
+      `Empreinte invalide : attendue ${expected}, obtenue ${algorithm}-${actual.toString('base64')}.`
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { Parser } from 'htmlparser2';
+import { findResourceUrls } from './staticresources.js';
+
+// Références d'un bundle LWC vers d'autres éléments, dans l'ordre des fichiers
+export type LwcReferences = {
+  components: string[];
+  apexClasses: string[];
+  staticResources: string[];
+  labels: string[];
+  customPermissions: string[];
+};
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.js': ts.ScriptKind.JS,
+  '.ts': ts.ScriptKind.TS,
+};
+
+// Modules reconnus dans les imports, par catégorie de référence
+const MODULE_PATTERNS: Record<keyof LwcReferences, RegExp> = {
+  // `c/monComposant`, éventuellement suivi d'un sous-module
+  components: /^c\/([a-zA-Z0-9_]+)(?:\/|$)/,
+  // `@salesforce/apex/Classe.methode` (ou `espaceDeNoms.Classe.methode`), aussi pour `apexContinuation`
+  apexClasses: /^@salesforce\/apex(?:Continuation)?\/(?:[a-zA-Z0-9_]+\.)?([a-zA-Z0-9_]+)\.[a-zA-Z0-9_]+$/,
+  staticResources: /^@salesforce\/resourceUrl\/([a-zA-Z0-9_]+)$/,
+  labels: /^@salesforce\/label\/c\.([a-zA-Z0-9_]+)$/,
+  customPermissions: /^@salesforce\/customPermission\/([a-zA-Z0-9_]+)$/,
+};
+
+/**
+ * Analyse tous les fichiers d'un bundle LWC (sauf les tests Jest de `__tests__`) :
+ * JS/TS avec le compilateur TypeScript (imports nommés, multi-lignes, `export ... from`, `import()`),
+ * templates HTML avec un vrai parseur et `@import` des feuilles CSS. Les URL `/resource/<nom>` des
+ * attributs du template et des `url()` CSS désignent aussi des ressources statiques.
+ */
+export async function analyzeLwcBundle(componentDir: string): Promise<LwcReferences> {
+  const files = await listBundleFiles(componentDir);
+  const perFile = await Promise.all(
+    files.map(async (file): Promise<{ specifiers: string[]; tags: string[]; resources: string[] }> => {
+      const extension = path.extname(file).toLowerCase();
+      if (extension === '.html') return { specifiers: [], ...parseTemplate(await fs.readFile(file, 'utf8')) };
+      if (extension === '.css') return { ...parseCss(await fs.readFile(file, 'utf8')), tags: [] };
+      const kind = SCRIPT_KINDS[extension];
+      if (!kind) return { specifiers: [], tags: [], resources: [] };
+      return { specifiers: getModuleSpecifiers(file, await fs.readFile(file, 'utf8'), kind), tags: [], resources: [] };
+    })
+  );
+
+  const found: Record<keyof LwcReferences, Set<string>> = {
+    components: new Set(),
+    apexClasses: new Set(),
+    staticResources: new Set(),
+    labels: new Set(),
+    customPermissions: new Set(),
+  };
+  const patterns = Object.entries(MODULE_PATTERNS) as Array<[keyof LwcReferences, RegExp]>;
+  for (const { specifiers, tags, resources } of perFile) {
+    for (const specifier of specifiers) {
+      for (const [kind, pattern] of patterns) {
+        const name = pattern.exec(specifier)?.[1];
+        if (name) found[kind].add(name);
+      }
+    }
+    // `<c-my-button>` désigne le composant `myButton`
+    for (const tag of tags) found.components.add(tag.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase()));
+    resources.forEach((name) => found.staticResources.add(name));
+  }
+  return {
+    components: [...found.components],
+    apexClasses: [...found.apexClasses],
+    staticResources: [...found.staticResources],
+    labels: [...found.labels],
+    customPermissions: [...found.customPermissions],
+  };
+}
+
+function getModuleSpecifiers(fileName: string, code: string, kind: ts.ScriptKind): string[] {
+  const source = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, false, kind);
+  const specifiers: string[] = [];
+  const visit = (node: ts.Node): void => {
+    if (
+      (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      specifiers.push(node.moduleSpecifier.text);
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      // Seul un `import()` dont le chemin est littéral peut être résolu
+      const [argument] = node.arguments;
+      if (argument && ts.isStringLiteralLike(argument)) specifiers.push(argument.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return specifiers;
+}
+
+// Noms (sans le préfixe `c-`) des composants du namespace `c` utilisés dans un template, et
+// ressources statiques de ses attributs (`<img src="/resource/logo">`)
+function parseTemplate(html: string): { tags: string[]; resources: string[] } {
+  const tags: string[] = [];
+  const resources: string[] = [];
+  const parser = new Parser({
+    onopentag(name, attributes): void {
+      if (name.startsWith('c-')) tags.push(name.slice(2));
+      for (const value of Object.values(attributes)) resources.push(...findResourceUrls(value));
+    },
+  });
+  parser.write(html);
+  parser.end();
+  return { tags, resources };
+}
+
+// `@import` d'une feuille de style et ressources statiques de ses `url()`
+function parseCss(css: string): { specifiers: string[]; resources: string[] } {
+  const code = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const specifiers = [...code.matchAll(/@import\s+(?:url\(\s*)?["']([^"']+)["']/g)].map((match) => match[1]);
+  const resources = [...code.matchAll(/url\(\s*["']?([^"')]+)/g)].flatMap((match) => findResourceUrls(match[1]));
+  return { specifiers, resources };
+}
+
+// Fichiers du bundle, triés pour un résultat stable
+async function listBundleFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(async (entry) => {
+        const fullPath = path.join(dir, entry.name);
+        if (!entry.isDirectory()) return [fullPath];
+        return entry.name === '__tests__' ? [] : listBundleFiles(fullPath);
+      })
+  );
+  return files.flat();
+}
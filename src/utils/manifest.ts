@@ -0,0 +1,208 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { FILENAMES, ITEM_TYPES } from './constants.js';
+import { DependencyNode, DependencyRef, itemKey, ResolvedDependencyForest } from './dependencies.js';
+import {
+  ItemType,
+  LockEntry,
+  Registry,
+  RegistryLock,
+  registryLockSchema,
+  RegistryManifest,
+  registryManifestSchema,
+} from './types.js';
+import { compareVersions, getLatestVersion, getMaxSatisfying, isValidVersion, satisfiesRange } from './versions.js';
+
+async function readJsonFile<T>(filePath: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T | undefined> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') return undefined;
+    throw new Error(`Impossible de lire ${filePath} : ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const check = schema.safeParse(raw);
+  if (!check.success) {
+    throw new Error(`Format invalide pour ${filePath} : ` + check.error.issues.map((i) => i.message).join('; '));
+  }
+  return check.data;
+}
+
+// Clés triées : le contenu des fichiers ne dépend pas de l'ordre des installations
+function sortRecord<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export async function readManifest(projectRoot: string): Promise<RegistryManifest> {
+  return (
+    (await readJsonFile(path.join(projectRoot, FILENAMES.MANIFEST), registryManifestSchema)) ??
+    registryManifestSchema.parse({})
+  );
+}
+
+export async function readLockfile(projectRoot: string): Promise<RegistryLock | undefined> {
+  return readJsonFile(path.join(projectRoot, FILENAMES.LOCK), registryLockSchema);
+}
+
+export async function writeProjectFiles(
+  projectRoot: string,
+  manifest: RegistryManifest,
+  lock: RegistryLock
+): Promise<void> {
+  const sortedManifest = Object.fromEntries(ITEM_TYPES.map((type) => [type, sortRecord(manifest[type])]));
+  const sortedLock = { lockfileVersion: lock.lockfileVersion, items: sortRecord(lock.items) };
+  await fs.promises.writeFile(
+    path.join(projectRoot, FILENAMES.MANIFEST),
+    JSON.stringify(sortedManifest, null, 2) + '\n',
+    'utf-8'
+  );
+  await fs.promises.writeFile(
+    path.join(projectRoot, FILENAMES.LOCK),
+    JSON.stringify(sortedLock, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+/**
+ * Entrées du lockfile dans l'ordre d'installation : chaque élément après ses dépendances.
+ * L'ordre ne dépend que du contenu du lockfile.
+ */
+export function getLockInstallOrder(lock: RegistryLock): LockEntry[] {
+  const ordered: LockEntry[] = [];
+  const visited = new Set<string>();
+  const visit = (key: string, requiredBy?: string): void => {
+    if (visited.has(key)) return;
+    const entry = lock.items[key];
+    if (!entry) {
+      throw new Error(
+        `Lockfile incohérent : ${key} est requis par ${requiredBy ?? '?'} mais absent de ${FILENAMES.LOCK}.`
+      );
+    }
+    visited.add(key);
+    entry.dependencies.forEach((dep) => visit(dep, key));
+    ordered.push(entry);
+  };
+  Object.keys(lock.items)
+    .sort()
+    .forEach((key) => visit(key));
+  return ordered;
+}
+
+/**
+ * Enregistre les éléments téléchargés dans le manifeste et leurs arbres résolus dans le lockfile.
+ * Seuls les nœuds de `installed` (par défaut, tous) sont verrouillés à leur version résolue : un
+ * élément conservé tel quel garde son entrée, et n'est pas verrouillé s'il n'en avait pas.
+ * Les entrées qui ne sont plus atteignables depuis le manifeste sont retirées du lockfile.
+ */
+export async function recordInstall(
+  projectRoot: string,
+  resolved: ResolvedDependencyForest,
+  installed: ReadonlySet<DependencyNode> = new Set(resolved.installOrder)
+): Promise<void> {
+  const manifest = await readManifest(projectRoot);
+  const lock: RegistryLock = (await readLockfile(projectRoot)) ?? { lockfileVersion: 1, items: {} };
+
+  for (const tree of resolved.trees) {
+    const locked = lock.items[itemKey(tree)];
+    if (installed.has(tree)) {
+      manifest[tree.type][tree.name] = getManifestRange(manifest[tree.type][tree.name], tree.version);
+    } else if (locked) {
+      manifest[tree.type][tree.name] ??= getManifestRange(undefined, locked.version);
+    }
+  }
+  for (const node of resolved.installOrder.filter((n) => installed.has(n))) {
+    lock.items[itemKey(node)] = {
+      type: node.type,
+      name: node.name,
+      version: node.version,
+      hash: node.details.hash,
+      dependencies: node.dependencies.map(itemKey),
+    };
+  }
+  // Une dépendance présente dans le projet sans être suivie par le lockfile est un élément local
+  for (const entry of Object.values(lock.items)) {
+    entry.dependencies = entry.dependencies.filter((key) => key in lock.items);
+  }
+
+  await writeProjectFiles(projectRoot, manifest, pruneLock(manifest, lock));
+}
+
+/**
+ * Contrainte à écrire dans registry.json pour `version` : la plage existante si elle la satisfait,
+ * sinon une plage du même style (exacte, `~` ou `^` par défaut).
+ */
+function getManifestRange(existing: string | undefined, version: string): string {
+  if (!existing) return `^${version}`;
+  if (satisfiesRange(version, existing)) return existing;
+  if (isValidVersion(existing)) return version;
+  return existing.startsWith('~') ? `~${version}` : `^${version}`;
+}
+
+// Éléments de registry.json, à résoudre avec leur plage
+export function getManifestRoots(manifest: RegistryManifest): DependencyRef[] {
+  return ITEM_TYPES.flatMap((type) =>
+    Object.entries(manifest[type]).map(([name, version]) => ({ type, name, version }))
+  );
+}
+
+// Versions verrouillées, conservées par le résolveur tant qu'elles satisfont les plages
+export function getLockedVersions(lock: RegistryLock): Map<string, string> {
+  return new Map(Object.entries(lock.items).map(([key, entry]) => [key, entry.version]));
+}
+
+export type OutdatedItem = {
+  type: ItemType;
+  name: string;
+  // Version verrouillée dans registry-lock.json (absente si le lockfile n'est pas à jour)
+  current?: string;
+  // Plus haute version satisfaisant la plage de registry.json (pour une dépendance : la version verrouillée)
+  wanted: string;
+  latest: string;
+  // Élément listé dans registry.json (les dépendances suivent les éléments qui les utilisent)
+  direct: boolean;
+};
+
+/**
+ * Éléments du projet dont une version plus récente est publiée dans le registre.
+ */
+export function getOutdatedItems(catalog: Registry, manifest: RegistryManifest, lock: RegistryLock): OutdatedItem[] {
+  const wantedByKey = new Map<string, { type: ItemType; name: string; wanted: string; direct: boolean }>();
+  for (const entry of Object.values(lock.items)) {
+    wantedByKey.set(itemKey(entry), { type: entry.type, name: entry.name, wanted: entry.version, direct: false });
+  }
+  for (const type of ITEM_TYPES) {
+    for (const [name, range] of Object.entries(manifest[type])) {
+      const entry = catalog[type].find((e) => e.name === name);
+      const wanted = (entry && getMaxSatisfying(entry, [range])?.version) ?? range;
+      wantedByKey.set(itemKey({ type, name }), { type, name, wanted, direct: true });
+    }
+  }
+
+  const outdated: OutdatedItem[] = [];
+  for (const [key, item] of [...wantedByKey].sort(([a], [b]) => a.localeCompare(b))) {
+    const entry = catalog[item.type].find((e) => e.name === item.name);
+    const latest = entry && getLatestVersion(entry);
+    const current = lock.items[key]?.version;
+    if (!latest) continue;
+    if (compareVersions(latest.version, current ?? item.wanted) > 0 || current !== item.wanted) {
+      outdated.push({ ...item, current, latest: latest.version });
+    }
+  }
+  return outdated;
+}
+
+function pruneLock(manifest: RegistryManifest, lock: RegistryLock): RegistryLock {
+  const reachable = new Set<string>();
+  const roots = ITEM_TYPES.flatMap((type) => Object.keys(manifest[type]).map((name) => itemKey({ type, name })));
+  const visit = (key: string): void => {
+    if (reachable.has(key)) return;
+    reachable.add(key);
+    lock.items[key]?.dependencies.forEach(visit);
+  };
+  roots.forEach(visit);
+  return {
+    ...lock,
+    items: Object.fromEntries(Object.entries(lock.items).filter(([key]) => reachable.has(key))),
+  };
+}
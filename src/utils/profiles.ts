@@ -0,0 +1,211 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AUTH_CONFIG_FILE_PATH, DEFAULT_PROFILE, ENV_VARS, SERVER_URL } from './constants.js';
+import { findProjectRoot } from './functions.js';
+import { canPrompt } from './prompts.js';
+import { AuthTokens, RegistryConfig, RegistryProfile, registryConfigSchema, ResolvedRegistry } from './types.js';
+import { assertPrivateFile, decryptSecret, encryptSecret, isEncryptedSecret, writePrivateFile } from './secrets.js';
+
+// Champs d'un profil chiffrés au repos
+const SECRET_FIELDS = ['token', 'refreshToken'] as const satisfies ReadonlyArray<keyof RegistryProfile>;
+
+function defaultConfig(): RegistryConfig {
+  return { current: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: { url: SERVER_URL } } };
+}
+
+/**
+ * Lit le fichier de configuration local et déchiffre les tokens. Un fichier en clair
+ * (dont l'ancien format `{ token }`, converti en profil `default`) est migré
+ * immédiatement vers un fichier chiffré en 0600 ; sinon le fichier est refusé
+ * s'il est accessible au groupe ou aux autres utilisateurs.
+ */
+export async function readRegistryConfig(): Promise<RegistryConfig> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(AUTH_CONFIG_FILE_PATH, 'utf-8');
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') return defaultConfig();
+    throw new Error(
+      `Impossible de lire ${AUTH_CONFIG_FILE_PATH} : ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  // Un fichier illisible n'est jamais remplacé par la configuration par défaut : ses profils seraient perdus
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error(unreadableConfigMessage('JSON invalide'));
+  }
+
+  let config = defaultConfig();
+  let needsMigration = false;
+  const parsed = registryConfigSchema.safeParse(raw);
+  if (parsed.success) {
+    config = parsed.data;
+  } else if (raw && typeof raw === 'object' && 'token' in raw && typeof raw.token === 'string') {
+    config.profiles[DEFAULT_PROFILE].token = raw.token;
+    needsMigration = true;
+  } else {
+    throw new Error(unreadableConfigMessage('format inconnu'));
+  }
+
+  config.profiles = Object.fromEntries(
+    await Promise.all(
+      Object.entries(config.profiles).map(async ([name, profile]) => {
+        const decrypted = { ...profile };
+        await Promise.all(
+          SECRET_FIELDS.map(async (field) => {
+            const secret = profile[field];
+            if (!secret) return;
+            if (isEncryptedSecret(secret)) decrypted[field] = await decryptSecret(secret);
+            else needsMigration = true;
+          })
+        );
+        return [name, decrypted];
+      })
+    )
+  ) as RegistryConfig['profiles'];
+
+  if (needsMigration) {
+    await writeRegistryConfig(config);
+  } else {
+    await assertPrivateFile(AUTH_CONFIG_FILE_PATH);
+  }
+  return config;
+}
+
+function unreadableConfigMessage(reason: string): string {
+  return (
+    `Le fichier ${AUTH_CONFIG_FILE_PATH} est illisible (${reason}). ` +
+    'Corrigez-le, ou supprimez-le puis relancez « sf registry login ».'
+  );
+}
+
+export async function writeRegistryConfig(config: RegistryConfig): Promise<void> {
+  const profiles = Object.fromEntries(
+    await Promise.all(
+      Object.entries(config.profiles).map(async ([name, profile]) => {
+        const encrypted = { ...profile };
+        await Promise.all(
+          SECRET_FIELDS.map(async (field) => {
+            const secret = profile[field];
+            if (secret) encrypted[field] = await encryptSecret(secret);
+          })
+        );
+        return [name, encrypted];
+      })
+    )
+  ) as RegistryConfig['profiles'];
+  await writePrivateFile(AUTH_CONFIG_FILE_PATH, JSON.stringify({ ...config, profiles }, null, 2));
+}
+
+export async function saveProfileTokens(profileName: string, url: string, tokens: AuthTokens): Promise<void> {
+  const config = await readRegistryConfig();
+  const { refreshToken: previousRefreshToken } = config.profiles[profileName] ?? {};
+  // Un serveur qui ne renvoie pas de nouveau refresh token laisse l'ancien valide
+  config.profiles[profileName] = {
+    ...config.profiles[profileName],
+    url,
+    token: tokens.token,
+    refreshToken: tokens.refreshToken ?? previousRefreshToken,
+  };
+  await writeRegistryConfig(config);
+}
+
+export async function clearProfileToken(profileName: string): Promise<boolean> {
+  const config = await readRegistryConfig();
+  const profile = config.profiles[profileName];
+  if (!profile?.token && !profile?.refreshToken) return false;
+  delete profile.token;
+  delete profile.refreshToken;
+  await writeRegistryConfig(config);
+  return true;
+}
+
+export function normalizeServerUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Résout le registre à utiliser, par ordre de priorité :
+ * `--server`, variable d'environnement, `sfdx-project.json`, puis le profil actif.
+ * Chaque valeur peut être un nom de profil ou une URL. Le token `REGISTRY_TOKEN`,
+ * s'il est défini, remplace celui du profil, sauf pour un serveur lu dans `sfdx-project.json` :
+ * un projet cloné ne doit pas pouvoir se faire envoyer le token de la CI.
+ */
+export async function resolveRegistry(
+  server?: string,
+  options: { noPrompt?: boolean } = {}
+): Promise<ResolvedRegistry> {
+  const location = await resolveRegistryLocation(server);
+  const interactive = canPrompt(options.noPrompt ?? false);
+  const envToken = process.env[ENV_VARS.TOKEN];
+  if (envToken && location.source !== 'project') {
+    return { ...location, token: envToken, refreshToken: undefined, tokenSource: 'env', interactive };
+  }
+  return { ...location, tokenSource: location.token ? 'profile' : undefined, interactive };
+}
+
+async function resolveRegistryLocation(server?: string): Promise<RegistryLocation> {
+  const config = await readRegistryConfig();
+  const candidates: Array<{ value: string | undefined; source: ResolvedRegistry['source'] }> = [
+    { value: server, source: 'flag' },
+    { value: process.env[ENV_VARS.SERVER_URL], source: 'env' },
+    { value: await readProjectServer(), source: 'project' },
+  ];
+  const selected = candidates.find((candidate) => candidate.value);
+  if (!selected?.value) {
+    return fromProfile(config, config.current, 'profile');
+  }
+  if (config.profiles[selected.value]) {
+    return fromProfile(config, selected.value, selected.source);
+  }
+  return fromUrl(config, selected.value, selected.source);
+}
+
+type RegistryLocation = Omit<ResolvedRegistry, 'interactive' | 'tokenSource'>;
+
+function fromProfile(config: RegistryConfig, name: string, source: ResolvedRegistry['source']): RegistryLocation {
+  const profile = config.profiles[name];
+  if (!profile) {
+    throw new Error(`Profil de registre "${name}" introuvable. Lancez « sf registry config list ».`);
+  }
+  return {
+    url: normalizeServerUrl(profile.url),
+    profile: name,
+    token: profile.token,
+    refreshToken: profile.refreshToken,
+    source,
+  };
+}
+
+function fromUrl(config: RegistryConfig, value: string, source: ResolvedRegistry['source']): RegistryLocation {
+  let url: string;
+  try {
+    url = normalizeServerUrl(new URL(value).toString());
+  } catch {
+    throw new Error(`"${value}" n'est ni une URL valide ni un profil de registre connu.`);
+  }
+  // Le token n'est envoyé qu'au serveur du profil auquel il appartient
+  const match = Object.entries(config.profiles).find(([, profile]) => normalizeServerUrl(profile.url) === url);
+  return match
+    ? { url, profile: match[0], token: match[1].token, refreshToken: match[1].refreshToken, source }
+    : { url, source };
+}
+
+async function readProjectServer(): Promise<string | undefined> {
+  let projectRoot: string;
+  try {
+    projectRoot = findProjectRoot(process.cwd());
+  } catch {
+    return undefined;
+  }
+  try {
+    const content = await fs.promises.readFile(path.join(projectRoot, 'sfdx-project.json'), 'utf-8');
+    const project = JSON.parse(content) as { plugins?: { registry?: { server?: unknown } } };
+    const projectServer = project.plugins?.registry?.server;
+    return typeof projectServer === 'string' ? projectServer : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { PATHS } from './constants.js';
+import { sfdxProjectSchema } from './types.js';
+
+// Dossier de packages déclaré dans sfdx-project.json
+export type PackageDirectory = {
+  // Chemin tel que déclaré (relatif à la racine du projet)
+  path: string;
+  fullPath: string;
+  default: boolean;
+  // Dossier où placer les éléments téléchargés ou créés (voir getTargetDirectory)
+  targetDir: string;
+};
+
+/**
+ * Dossiers de packages (`packageDirectories`) du projet, dans l'ordre de sfdx-project.json. Le
+ * dossier marqué `default` (à défaut le premier) fait office de dossier par défaut ; sans
+ * `packageDirectories`, le projet n'a que `force-app`.
+ */
+export async function readPackageDirectories(projectRoot: string): Promise<PackageDirectory[]> {
+  const projectFile = path.join(projectRoot, 'sfdx-project.json');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(projectFile, 'utf8'));
+  } catch (error) {
+    throw new Error(`Impossible de lire ${projectFile} : ${(error as Error).message}`);
+  }
+  const parsed = sfdxProjectSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`packageDirectories invalide dans ${projectFile} : ${parsed.error.issues[0].message}`);
+  }
+
+  const declared = parsed.data.packageDirectories ?? [{ path: PATHS.DEFAULT_PACKAGE_DIR, default: true }];
+  const defaultIndex = Math.max(
+    declared.findIndex((dir) => dir.default === true),
+    0
+  );
+  return Promise.all(
+    declared.map(async (dir, index) => {
+      const fullPath = path.resolve(projectRoot, dir.path);
+      return {
+        path: dir.path,
+        fullPath,
+        default: index === defaultIndex,
+        targetDir: await getTargetDirectory(fullPath),
+      };
+    })
+  );
+}
+
+export function getDefaultPackageDirectory(directories: PackageDirectory[]): PackageDirectory {
+  return directories.find((dir) => dir.default) ?? directories[0];
+}
+
+/**
+ * Dossiers de métadonnées dont le nom est dans `folderNames` (`lwc`, `classes`, `staticresources`...)
+ * sous un dossier de packages, quelle que soit leur profondeur (`main/default/lwc`, `ui/lwc`...).
+ */
+export async function findMetadataFolders(packageDir: string, folderNames: readonly string[]): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(packageDir, { withFileTypes: true });
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') return [];
+    throw new Error(`Erreur lors de la lecture du dossier "${packageDir}" : ${(error as Error).message}`);
+  }
+  const folders = await Promise.all(
+    entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules')
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(async (entry) => {
+        const fullPath = path.join(packageDir, entry.name);
+        // Les éléments d'un dossier de métadonnées ne contiennent pas d'autres dossiers de métadonnées
+        return folderNames.includes(entry.name) ? [fullPath] : findMetadataFolders(fullPath, folderNames);
+      })
+  );
+  return folders.flat();
+}
+
+// `<dossier>/main/default` sauf si le dossier de packages a déjà une autre organisation
+async function getTargetDirectory(packageDir: string): Promise<string> {
+  const sourceDir = path.join(packageDir, PATHS.DEFAULT_SOURCE_DIR);
+  try {
+    const [entries, hasSourceDir] = await Promise.all([
+      fs.readdir(packageDir),
+      fs.stat(sourceDir).then(
+        (stats) => stats.isDirectory(),
+        () => false
+      ),
+    ]);
+    return hasSourceDir || entries.length === 0 ? sourceDir : packageDir;
+  } catch {
+    // Dossier de packages pas encore créé
+    return sourceDir;
+  }
+}
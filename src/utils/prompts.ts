@@ -1,7 +1,49 @@
 import path from 'node:path';
 import inquirer from 'inquirer';
-import type { ComponentOrClassEntry, ComponentOrClassVersion } from './types.js';
-import { findProjectRoot } from './functions.js';
+import type { ComponentOrClassEntry, ComponentOrClassVersion, ConflictMode, ItemType } from './types.js';
+import type { OutdatedItem } from './manifest.js';
+import { ITEM_TYPE_INFO, ITEM_TYPES } from './constants.js';
+import { getDefaultPackageDirectory, type PackageDirectory } from './project.js';
+import { filterNames } from './search.js';
+import { isValidVersion } from './versions.js';
+
+
+export function canPrompt(noPrompt: boolean): boolean {
+  return !noPrompt && Boolean(process.stdin.isTTY);
+}
+
+
+export async function resolveOrPrompt<T>(
+  value: T | undefined,
+  params: { flag: string; noPrompt: boolean; prompt: () => Promise<T> }
+): Promise<T> {
+  if (value !== undefined) return value;
+  if (!canPrompt(params.noPrompt)) {
+    throw new Error(`Valeur manquante : utilisez --${params.flag} (aucun prompt possible en mode non interactif).`);
+  }
+  return params.prompt();
+}
+
+export async function promptCredentials(
+  username?: string,
+  message = 'Nom d\'utilisateur du registre :'
+): Promise<{ username: string; password: string }> {
+  const answers = await inquirer.prompt<{ username?: string; password: string }>([
+    {
+      name: 'username',
+      message,
+      type: 'input',
+      when: () => !username,
+    },
+    {
+      name: 'password',
+      message: 'Mot de passe du registre :',
+      type: 'password',
+      mask: '*',
+    },
+  ]);
+  return { username: username ?? answers.username ?? '', password: answers.password };
+}
 
 
 export async function promptComponentOrClass(message: string): Promise<'component' | 'class'> {
@@ -20,13 +62,32 @@ export async function promptComponentOrClass(message: string): Promise<'componen
 }
 
 
+export async function promptItemType(message: string): Promise<ItemType> {
+  const { type } = await inquirer.prompt<{ type: ItemType }>([
+    {
+      name: 'type',
+      type: 'list',
+      message,
+      choices: ITEM_TYPES.map((value) => ({ name: capitalize(ITEM_TYPE_INFO[value].label), value })),
+    },
+  ]);
+  return type;
+}
+
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+
+// Saisie filtrante : les noms sont classés par pertinence au fil de la frappe (correspondance approchée)
 export async function promptSelectName(message: string, names: string[]): Promise<string> {
   const { name } = await inquirer.prompt<{ name: string }>([
     {
       name: 'name',
-      type: 'list',
+      type: 'search',
       message,
-      choices: names,
+      source: (term: string | undefined) => filterNames(term, names),
     },
   ]);
   return name;
@@ -110,17 +171,26 @@ export async function promptSelectVersion(entry: ComponentOrClassEntry, name: st
 }
 
 
-export async function promptTargetDirectory(): Promise<string> {
+// Un choix par dossier de packages de sfdx-project.json (le dossier par défaut présélectionné), ou un chemin libre
+export async function promptTargetDirectory(packageDirs: PackageDirectory[], projectRoot: string): Promise<string> {
+  const other = 'Autre...';
   const { choice } = await inquirer.prompt<{ choice: string }>([
     {
       name: 'choice',
       type: 'list',
       message: 'Dossier cible ? (les composants LWC iront dans lwc, les classes dans classes)',
-      choices: ['force-app/main/default/', 'Autre...'],
+      choices: [
+        ...packageDirs.map((dir) => ({
+          name: `${path.relative(projectRoot, dir.targetDir)}/${dir.default ? ' (par défaut)' : ''}`,
+          value: dir.targetDir,
+        })),
+        other,
+      ],
+      default: getDefaultPackageDirectory(packageDirs).targetDir,
     },
   ]);
 
-  if (choice === 'Autre...') {
+  if (choice === other) {
     const { target } = await inquirer.prompt<{ target: string }>([
       {
         name: 'target',
@@ -131,9 +201,7 @@ export async function promptTargetDirectory(): Promise<string> {
     ]);
     return target.trim();
   }
-  const projectRoot = findProjectRoot(process.cwd());
-  const finalDir = path.join(projectRoot, choice);
-  return finalDir;
+  return choice;
 }
 
 
@@ -143,7 +211,7 @@ export async function promptVersionToEnter(message = 'Numéro de version à dép
       name: 'version',
       type: 'input',
       message,
-      validate: (input) => (/^\d+\.\d+\.\d+$/.test(input) ? true : 'Format attendu : x.y.z'),
+      validate: (input: string) => (isValidVersion(input) ? true : 'Format attendu : x.y.z (ou x.y.z-beta.1)'),
     },
   ]);
   return version;
@@ -161,3 +229,36 @@ export async function promptDescriptionToEnter(message = 'Description ?'): Promi
   ]);
   return description;
 }
+
+
+export async function promptSelectItemsToUpdate(items: OutdatedItem[]): Promise<OutdatedItem[]> {
+  const { selected } = await inquirer.prompt<{ selected: OutdatedItem[] }>([
+    {
+      name: 'selected',
+      type: 'checkbox',
+      message: 'Quels éléments mettre à jour ?',
+      choices: items.map((item) => ({
+        name: `${item.name} (${item.type}) ${item.current ?? '—'} → ${item.latest}`,
+        value: item,
+        checked: true,
+      })),
+    },
+  ]);
+  return selected;
+}
+
+export async function promptConflictResolution(label: string): Promise<Exclude<ConflictMode, 'prompt'>> {
+  const { resolution } = await inquirer.prompt<{ resolution: Exclude<ConflictMode, 'prompt'> }>([
+    {
+      name: 'resolution',
+      type: 'list',
+      message: `${label} existe déjà. Que faire ?`,
+      choices: [
+        { name: 'Conserver la version locale', value: 'skip' },
+        { name: 'Remplacer par la version téléchargée', value: 'overwrite' },
+        { name: 'Sauvegarder la version locale puis la remplacer', value: 'backup' },
+      ],
+    },
+  ]);
+  return resolution;
+}
@@ -0,0 +1,325 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { findApexLabels, findApexReferences, findApexStaticResources, isApexTestClass } from './apex.js';
+import { analyzeAuraBundle } from './aura.js';
+import { ITEM_TYPE_INFO, ITEM_TYPES, PATHS } from './constants.js';
+import { analyzeLwcBundle } from './lwc.js';
+import { findMetadataFolders, readPackageDirectories } from './project.js';
+import { ItemType } from './types.js';
+
+// Éléments trouvés dans le projet Salesforce, par type
+export type ProjectIndex = {
+  items: Record<ItemType, string[]>;
+  // Emplacement de chaque élément : dossier (LWC, Aura, classe, trigger) ou fichier XML (étiquette, autorisation)
+  locations: Record<ItemType, Record<string, string>>;
+  // Dossiers `staticresources` de tous les dossiers de packages
+  staticResourceDirs: string[];
+};
+
+export type LocalDependency = { name: string; type: ItemType };
+
+// Fichier d'un élément dans l'archive de déploiement (sous `<nom>/`) : copié depuis le projet ou généré
+export type ItemFile = { name: string } & ({ source: string } | { content: string });
+
+// Types dont chaque élément est un dossier du projet
+const DIRECTORY_TYPES: readonly ItemType[] = ['component', 'aura', 'class', 'trigger'];
+
+const APEX_EXTENSIONS: Partial<Record<ItemType, string>> = { class: '.cls', trigger: '.trigger' };
+
+const LABELS_SUFFIX = '.labels-meta.xml';
+const CUSTOM_PERMISSION_SUFFIX = '.customPermission-meta.xml';
+
+// Lecture d'un dossier de métadonnées : emplacement de chaque élément, par nom
+const FOLDER_SCANNERS: Record<ItemType, (base: string) => Promise<Record<string, string>>> = {
+  component: listBundlesAsync,
+  class: (base) => findApexSourcesAsync(base, '.cls'),
+  aura: listBundlesAsync,
+  trigger: (base) => findApexSourcesAsync(base, '.trigger'),
+  label: findLabelsAsync,
+  permission: findCustomPermissionsAsync,
+};
+
+/**
+ * Inventaire des éléments de tous les dossiers de packages de sfdx-project.json. Un élément présent
+ * dans plusieurs dossiers est pris dans le premier déclaré.
+ */
+export async function scanProject(projectRoot: string): Promise<ProjectIndex> {
+  const packageDirs = await readPackageDirectories(projectRoot);
+  const folderNames = [...ITEM_TYPES.map((type) => ITEM_TYPE_INFO[type].folder), PATHS.STATIC_RESOURCES];
+  const folders = (await Promise.all(packageDirs.map((dir) => findMetadataFolders(dir.fullPath, folderNames)))).flat();
+  const foldersNamed = (name: string): string[] => folders.filter((folder) => path.basename(folder) === name);
+
+  const scanned = await Promise.all(
+    ITEM_TYPES.map(async (type) => {
+      const found = await Promise.all(foldersNamed(ITEM_TYPE_INFO[type].folder).map(FOLDER_SCANNERS[type]));
+      const locations: Record<string, string> = {};
+      for (const [name, location] of found.flatMap((entries) => Object.entries(entries))) {
+        locations[name] ??= location;
+      }
+      return [type, locations] as const;
+    })
+  );
+  const locations = Object.fromEntries(scanned) as ProjectIndex['locations'];
+  const items = Object.fromEntries(ITEM_TYPES.map((type) => [type, Object.keys(locations[type]).sort()])) as Record<
+    ItemType,
+    string[]
+  >;
+  return { items, locations, staticResourceDirs: foldersNamed(PATHS.STATIC_RESOURCES) };
+}
+
+// Dossier d'un élément du projet (undefined pour un élément inconnu ou qui n'est pas un dossier)
+export function getItemDirectory(index: ProjectIndex, type: ItemType, name: string): string | undefined {
+  return DIRECTORY_TYPES.includes(type) ? index.locations[type][name] : undefined;
+}
+
+/**
+ * Dépendances directes d'un élément parmi les éléments du projet.
+ */
+export async function getItemDependencies(
+  index: ProjectIndex,
+  name: string,
+  type: ItemType
+): Promise<LocalDependency[]> {
+  const { dependencies } = await analyzeItem(index, name, type);
+  return dependencies;
+}
+
+/**
+ * Dépendances directes d'un élément et ressources statiques qu'il utilise :
+ * - LWC : modules `c/...`, Apex, étiquettes (`@salesforce/label/c.X`), autorisations personnalisées ;
+ * - Aura : balises `c:xxx` (Aura ou LWC), contrôleur Apex et `$Label.c.X` ;
+ * - classe ou trigger : classes référencées, étiquettes (`Label.X`) et ressources de `PageReference`/`StaticResource`.
+ */
+export async function analyzeItem(
+  index: ProjectIndex,
+  name: string,
+  type: ItemType
+): Promise<{ dependencies: LocalDependency[]; staticResources: string[] }> {
+  const location = index.locations[type][name];
+  if (!location) throw new Error(`Élément "${name}" (${type}) introuvable dans le projet.`);
+  const ofType = (depType: ItemType, names: string[]): LocalDependency[] =>
+    names.map((depName) => ({ name: depName, type: depType }));
+
+  if (type === 'component') {
+    const refs = await analyzeLwcBundle(location);
+    const components = refs.components.filter((dep) => dep !== name && index.items.component.includes(dep));
+    return {
+      dependencies: [
+        ...ofType('component', components),
+        ...ofType('class', matchNames(refs.apexClasses, index.items.class)),
+        ...ofType('label', matchNames(refs.labels, index.items.label)),
+        ...ofType('permission', matchNames(refs.customPermissions, index.items.permission)),
+      ],
+      staticResources: refs.staticResources,
+    };
+  }
+  if (type === 'aura') {
+    const refs = await analyzeAuraBundle(location);
+    // `c:xxx` désigne un composant Aura s'il en existe un de ce nom, sinon un composant LWC
+    const auraBundles = refs.components.filter((dep) => dep !== name && index.items.aura.includes(dep));
+    const components = refs.components.filter(
+      (dep) => !index.items.aura.includes(dep) && index.items.component.includes(dep)
+    );
+    return {
+      dependencies: [
+        ...ofType('aura', auraBundles),
+        ...ofType('component', components),
+        ...ofType('class', matchNames(refs.apexClasses, index.items.class)),
+        ...ofType('label', matchNames(refs.labels, index.items.label)),
+      ],
+      staticResources: refs.staticResources,
+    };
+  }
+  const extension = APEX_EXTENSIONS[type];
+  if (!extension) return { dependencies: [], staticResources: [] };
+
+  const code = await fs.readFile(path.join(location, `${name}${extension}`), 'utf8');
+  return {
+    dependencies: [
+      ...ofType('class', findApexReferences(code, index.items.class, type === 'class' ? name : undefined)),
+      ...ofType('label', matchNames(findApexLabels(code), index.items.label)),
+    ],
+    staticResources: findApexStaticResources(code),
+  };
+}
+
+/**
+ * Classes de test (`@isTest`) du projet qui couvrent l'une des classes `classNames` : elles la
+ * référencent, ou portent son nom suivi de `Test`, `_Test`, `Tests` (ou précédé de `Test`).
+ */
+export async function findCoveringTests(index: ProjectIndex, classNames: string[]): Promise<string[]> {
+  const conventions = new Set(
+    classNames
+      .flatMap((name) => [`${name}Test`, `${name}_Test`, `${name}Tests`, `Test${name}`])
+      .map((name) => name.toLowerCase())
+  );
+  const tests = await Promise.all(
+    index.items.class.map(async (name) => {
+      const code = await fs.readFile(path.join(index.locations.class[name], `${name}.cls`), 'utf8');
+      if (!isApexTestClass(code)) return [];
+      const covers = conventions.has(name.toLowerCase()) || findApexReferences(code, classNames, name).length > 0;
+      return covers ? [name] : [];
+    })
+  );
+  return tests.flat();
+}
+
+/**
+ * Fichiers d'un élément à placer dans l'archive de déploiement, sous `<nom>/`. Une étiquette est
+ * extraite du fichier `CustomLabels` qui la contient vers son propre `<nom>.labels-meta.xml`.
+ */
+export async function getItemFiles(index: ProjectIndex, type: ItemType, name: string): Promise<ItemFile[]> {
+  const location = index.locations[type][name];
+  if (!location) throw new Error(`Élément "${name}" (${type}) introuvable dans le projet.`);
+  if (type === 'label') {
+    const block = parseLabels(await fs.readFile(location, 'utf8')).get(name)!;
+    const content =
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      `<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">\n    ${block}\n</CustomLabels>\n`;
+    return [{ name: path.posix.join(name, `${name}${LABELS_SUFFIX}`), content }];
+  }
+  if (!DIRECTORY_TYPES.includes(type)) {
+    return [{ name: path.posix.join(name, path.basename(location)), source: location }];
+  }
+  const files = await listFilesAsync(location);
+  return files.map((source) => ({
+    name: path.posix.join(name, ...path.relative(location, source).split(path.sep)),
+    source,
+  }));
+}
+
+/**
+ * Propriétés d'une étiquette (`value`, `categories`) ou d'une autorisation personnalisée (`label`,
+ * `licensed`) lues dans ses métadonnées ; undefined pour les autres types.
+ */
+export async function readItemDetails(
+  index: ProjectIndex,
+  type: ItemType,
+  name: string
+): Promise<Record<string, string> | undefined> {
+  const location = index.locations[type][name];
+  if (!location || (type !== 'label' && type !== 'permission')) return undefined;
+  const xml = await fs.readFile(location, 'utf8');
+  if (type === 'label') {
+    const block = parseLabels(xml).get(name)!;
+    return definedOnly({ value: readXmlText(block, 'value'), categories: readXmlText(block, 'categories') });
+  }
+  return definedOnly({ label: readXmlText(xml, 'label'), licensed: readXmlText(xml, 'isLicensed') });
+}
+
+// Noms de `known` correspondant à `found` sans tenir compte de la casse (Apex, étiquettes)
+function matchNames(found: string[], known: string[]): string[] {
+  const wanted = new Set(found.map((name) => name.toLowerCase()));
+  return known.filter((name) => wanted.has(name.toLowerCase()));
+}
+
+// Un dossier par composant (LWC ou Aura)
+async function listBundlesAsync(base: string): Promise<Record<string, string>> {
+  const names = await safeListDirNamesAsync(base);
+  return Object.fromEntries(names.map((name) => [name, path.join(base, name)]));
+}
+
+// Un dossier par classe ou trigger, contenant `<Nom>.cls` ou `<Nom>.trigger`
+async function findApexSourcesAsync(base: string, extension: string): Promise<Record<string, string>> {
+  const dirs = await safeListDirNamesAsync(base);
+  const filesByDir = await Promise.all(
+    dirs.map(async (dirName) => {
+      const dirPath = path.join(base, dirName);
+      const files = await fs.readdir(dirPath);
+      return { dirPath, files };
+    })
+  );
+
+  const locations: Record<string, string> = {};
+  for (const { dirPath, files } of filesByDir) {
+    for (const file of files) {
+      if (file.endsWith(extension)) locations[path.basename(file, extension)] = dirPath;
+    }
+  }
+  return locations;
+}
+
+// Chaque étiquette des fichiers `*.labels-meta.xml`, avec le fichier qui la contient
+async function findLabelsAsync(base: string): Promise<Record<string, string>> {
+  const files = (await listFilesIfExistsAsync(base)).filter((file) => file.endsWith(LABELS_SUFFIX));
+  const contents = await Promise.all(files.map((file) => fs.readFile(file, 'utf8')));
+  const locations: Record<string, string> = {};
+  files.forEach((file, i) => {
+    for (const label of parseLabels(contents[i]).keys()) locations[label] = file;
+  });
+  return locations;
+}
+
+async function findCustomPermissionsAsync(base: string): Promise<Record<string, string>> {
+  const files = (await listFilesIfExistsAsync(base)).filter((file) => file.endsWith(CUSTOM_PERMISSION_SUFFIX));
+  return Object.fromEntries(files.map((file) => [path.basename(file, CUSTOM_PERMISSION_SUFFIX), file]));
+}
+
+// Bloc `<labels>...</labels>` de chaque étiquette, par nom (`fullName`)
+function parseLabels(xml: string): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const [block] of xml.matchAll(/<labels>[\s\S]*?<\/labels>/g)) {
+    const fullName = /<fullName>\s*([^<]+?)\s*<\/fullName>/.exec(block)?.[1];
+    if (fullName) labels.set(fullName, block);
+  }
+  return labels;
+}
+
+// Texte de la première balise `<tag>` de `xml`, entités XML décodées
+function readXmlText(xml: string, tag: string): string | undefined {
+  const text = new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml)?.[1];
+  return text
+    ?.trim()
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function definedOnly(values: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+}
+
+// Fichiers sous `dir`, triés (récursif)
+async function listFilesAsync(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(async (entry) => {
+        const fullPath = path.join(dir, entry.name);
+        return entry.isDirectory() ? listFilesAsync(fullPath) : [fullPath];
+      })
+  );
+  return files.flat();
+}
+
+async function listFilesIfExistsAsync(dir: string): Promise<string[]> {
+  try {
+    return await listFilesAsync(dir);
+  } catch (error) {
+    if (isNotFound(error)) return [];
+    throw new Error(`Erreur lors de la lecture du dossier "${dir}" : ${(error as Error).message}`);
+  }
+}
+
+// Un dossier de type absent du projet (ex: pas de trigger) ne contient simplement aucun élément
+async function safeListDirNamesAsync(base: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(base, { withFileTypes: true });
+    return entries
+      .filter((e) => e.isDirectory())
+      .map((e) => e.name)
+      .sort();
+  } catch (error) {
+    if (isNotFound(error)) return [];
+    throw new Error(`Erreur lors de la lecture du dossier "${base}" : ${(error as Error).message}`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
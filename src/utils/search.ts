@@ -0,0 +1,151 @@
+import { ITEM_TYPES } from './constants.js';
+import { getLatestVersion } from './versions.js';
+import { ItemType, Registry } from './types.js';
+
+export type SearchFilters = {
+  type?: ItemType;
+  // Seulement les éléments dont la dernière version livre des ressources statiques
+  hasStaticResources?: boolean;
+  // Seulement les éléments dont la dernière version dépend directement de cet élément (tous types)
+  dependsOn?: string;
+};
+
+export type SearchResult = {
+  type: ItemType;
+  name: string;
+  // Dernière version publiée
+  version: string;
+  description: string;
+  staticResources: string[];
+  // Pertinence : plus elle est élevée, plus le résultat est classé haut (0 sans requête)
+  score: number;
+};
+
+// Poids d'une correspondance sur la description par rapport à une correspondance sur le nom
+const DESCRIPTION_WEIGHT = 0.5;
+
+/**
+ * Pertinence d'un texte court (nom d'élément) pour un terme : égalité, préfixe, sous-chaîne, puis
+ * correspondance approchée où les lettres du terme apparaissent dans l'ordre (`mbtn` → `myButton`).
+ * Undefined si le texte ne correspond pas. Casse et accents sont ignorés.
+ */
+export function fuzzyScore(term: string, text: string): number | undefined {
+  const needle = normalize(term);
+  const haystack = normalize(text);
+  if (!needle) return 0;
+  if (haystack === needle) return 100;
+  if (haystack.startsWith(needle)) return 90 - Math.min(haystack.length - needle.length, 10);
+  const index = haystack.indexOf(needle);
+  if (index >= 0) return 70 - Math.min(index, 10);
+  return subsequenceScore(needle, stripAccents(text));
+}
+
+/**
+ * Éléments du catalogue correspondant à la requête et aux filtres, du plus pertinent au moins
+ * pertinent (puis par nom). Chaque mot de la requête doit se retrouver dans le nom (correspondance
+ * approchée) ou dans un mot de la description de la dernière version.
+ */
+export function searchCatalog(catalog: Registry, query: string, filters: SearchFilters = {}): SearchResult[] {
+  const terms = query.split(/\s+/).filter(Boolean);
+  const results: SearchResult[] = [];
+  for (const type of filters.type ? [filters.type] : ITEM_TYPES) {
+    for (const entry of catalog[type]) {
+      const latest = getLatestVersion(entry);
+      if (!latest) continue;
+      if (filters.hasStaticResources && !latest.staticresources.length) continue;
+      if (filters.dependsOn && !latest.registryDependencies.some((dep) => dep.name === filters.dependsOn)) continue;
+
+      const score = scoreTerms(terms, entry.name, latest.description);
+      if (score === undefined) continue;
+      results.push({
+        type,
+        name: entry.name,
+        version: latest.version,
+        description: latest.description,
+        staticResources: latest.staticresources,
+        score,
+      });
+    }
+  }
+  return results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+/**
+ * Noms correspondant au terme saisi, du plus pertinent au moins pertinent. Sans terme, tous les
+ * noms dans leur ordre d'origine (prompts à saisie filtrante).
+ */
+export function filterNames(term: string | undefined, names: string[]): string[] {
+  if (!term?.trim()) return names;
+  return names
+    .map((name) => ({ name, score: fuzzyScore(term.trim(), name) }))
+    .filter((match): match is { name: string; score: number } => match.score !== undefined)
+    .sort((a, b) => b.score - a.score)
+    .map((match) => match.name);
+}
+
+// Somme des pertinences des mots de la requête ; undefined dès qu'un mot ne correspond à rien
+function scoreTerms(terms: string[], name: string, description: string): number | undefined {
+  const words = normalize(description)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  let total = 0;
+  for (const term of terms) {
+    const nameScore = fuzzyScore(term, name) ?? 0;
+    const descriptionScore = descriptionWordScore(normalize(term), words) * DESCRIPTION_WEIGHT;
+    const score = Math.max(nameScore, descriptionScore);
+    if (!score) return undefined;
+    total += score;
+  }
+  return Math.round(total);
+}
+
+// La description n'est pas comparée de façon approchée : presque tout texte long contiendrait les lettres du terme
+function descriptionWordScore(term: string, words: string[]): number {
+  if (words.includes(term)) return 100;
+  if (words.some((word) => word.startsWith(term))) return 80;
+  if (words.some((word) => word.includes(term))) return 60;
+  return 0;
+}
+
+/**
+ * Lettres du terme retrouvées dans l'ordre : les lettres consécutives et celles qui commencent un
+ * mot (`my_button`, `myButton`) sont favorisées, chaque lettre sautée pénalise. Toujours sous 50.
+ * `text` est sans accents mais garde sa casse : les positions servent aussi à repérer les débuts de mot.
+ */
+function subsequenceScore(needle: string, text: string): number | undefined {
+  let position = 0;
+  let bonus = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const found = indexOfIgnoringCase(text, char, position);
+    if (found < 0) return undefined;
+    if (found === previous + 1) bonus += 3;
+    if (isWordStart(text, found)) bonus += 4;
+    previous = found;
+    position = found + 1;
+  }
+  const gaps = previous + 1 - needle.length;
+  return Math.max(1, Math.min(49, 20 + bonus - gaps));
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const char = text[index];
+  const before = text[index - 1];
+  return /[^a-zA-Z0-9]/.test(before) || (char >= 'A' && char <= 'Z' && before >= 'a' && before <= 'z');
+}
+
+function indexOfIgnoringCase(text: string, char: string, from: number): number {
+  for (let index = from; index < text.length; index++) {
+    if (text[index].toLowerCase() === char) return index;
+  }
+  return -1;
+}
+
+function normalize(text: string): string {
+  return stripAccents(text).toLowerCase();
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
@@ -0,0 +1,96 @@
+import fs from 'node:fs';
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { AUTH_KEY_FILE_PATH } from './constants.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const PRIVATE_FILE_MODE = 0o600;
+
+let keyPromise: Promise<Buffer> | undefined;
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Chiffre une valeur avec la clé locale. Format : `enc:v1:<iv>:<tag>:<données>` (base64).
+ */
+export async function encryptSecret(plain: string): Promise<string> {
+  const key = await getOrCreateKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ENCRYPTED_PREFIX + [iv, tag, data].map((part) => part.toString('base64')).join(':');
+}
+
+export async function decryptSecret(secret: string): Promise<string> {
+  const [iv, tag, data] = secret
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !data) throw new Error('Secret chiffré mal formé.');
+  const key = await getOrCreateKey();
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error(
+      `Impossible de déchiffrer le token (clé ${AUTH_KEY_FILE_PATH} modifiée ?). Relancez « sf registry login ».`
+    );
+  }
+}
+
+/**
+ * Refuse un fichier de secrets accessible au groupe ou aux autres utilisateurs de la machine.
+ */
+export async function assertPrivateFile(filePath: string): Promise<void> {
+  if (process.platform === 'win32') return;
+  const { mode } = await fs.promises.stat(filePath);
+  if (mode & 0o077) {
+    throw new Error(
+      `Le fichier ${filePath} est accessible à d'autres utilisateurs (permissions ${(mode & 0o777).toString(8)}). ` +
+        `Corrigez-les avec « chmod 600 ${filePath} ».`
+    );
+  }
+}
+
+/**
+ * Écrit un fichier de secrets en 0600. `mode` n'étant appliqué qu'à la création, le contenu est
+ * écrit dans un nouveau fichier du même dossier qui remplace ensuite la cible : il n'est jamais
+ * lisible avec les permissions d'un fichier existant.
+ */
+export async function writePrivateFile(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, content, { encoding: 'utf-8', mode: PRIVATE_FILE_MODE, flag: 'wx' });
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function getOrCreateKey(): Promise<Buffer> {
+  // Partagée pendant le chargement pour que des chiffrements parallèles ne génèrent pas chacun leur clé,
+  // puis relue à chaque appel : une clé remplacée ou supprimée est prise en compte
+  keyPromise ??= loadOrCreateKey().finally(() => {
+    keyPromise = undefined;
+  });
+  return keyPromise;
+}
+
+async function loadOrCreateKey(): Promise<Buffer> {
+  try {
+    await assertPrivateFile(AUTH_KEY_FILE_PATH);
+    const key = Buffer.from((await fs.promises.readFile(AUTH_KEY_FILE_PATH, 'utf-8')).trim(), 'hex');
+    if (key.length !== 32) throw new Error(`Clé de chiffrement invalide dans ${AUTH_KEY_FILE_PATH}.`);
+    return key;
+  } catch (error) {
+    if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) throw error;
+  }
+  const key = randomBytes(32);
+  await writePrivateFile(AUTH_KEY_FILE_PATH, key.toString('hex'));
+  return key;
+}
@@ -0,0 +1,14 @@
+/**
+ * Applique `task` à chaque élément, l'un après l'autre, et retourne les résultats dans l'ordre.
+ * Réservé aux étapes dont l'ordre compte (affichage, prompts, écritures annulées dans l'ordre
+ * inverse, état partagé) : sinon, `Promise.all`. Le premier échec interrompt la suite.
+ */
+export async function mapSequentially<T, R>(
+  items: readonly T[],
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  return items.reduce<Promise<R[]>>(
+    async (previous, item, index) => [...(await previous), await task(item, index)],
+    Promise.resolve([])
+  );
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { PATHS } from './constants.js';
+import type { ItemFile } from './scanner.js';
+
+const META_SUFFIX = '.resource-meta.xml';
+
+// Ressource statique du projet : un fichier (`logo.png`, `logo.resource`) ou un dossier décompressé (`chartjs/`)
+export type StaticResource = {
+  name: string;
+  source: string;
+  isDirectory: boolean;
+  metaFile: string;
+};
+
+/**
+ * Ressources statiques désignées par une URL `/resource/<nom>` ou `/resource/<horodatage>/<nom>`
+ * (`src` d'un template, `url()` d'une feuille CSS, `PageReference` Apex...).
+ */
+export function findResourceUrls(text: string): string[] {
+  return [...text.matchAll(/\/resource\/(?:\d+\/)?([a-zA-Z][a-zA-Z0-9_]*)/g)].map((match) => match[1]);
+}
+
+/**
+ * Cherche une ressource statique dans les dossiers `staticresources` du projet, le premier qui la
+ * contient l'emportant. Undefined si elle n'existe dans aucun.
+ */
+export async function findStaticResource(resourceDirs: string[], name: string): Promise<StaticResource | undefined> {
+  const entries = await Promise.all(resourceDirs.map((resourceDir) => findResourceEntry(resourceDir, name)));
+  const index = entries.findIndex(Boolean);
+  const entry = entries[index];
+  if (!entry) return undefined;
+  return {
+    name,
+    source: path.join(resourceDirs[index], entry.name),
+    isDirectory: entry.isDirectory(),
+    metaFile: path.join(resourceDirs[index], `${name}${META_SUFFIX}`),
+  };
+}
+
+/**
+ * Fichiers d'une ressource statique à placer dans l'archive sous `staticresources/` : son fichier ou
+ * tout le contenu de son dossier (récursif), puis son `-meta.xml`.
+ */
+export async function getStaticResourceFiles(resource: StaticResource): Promise<ItemFile[]> {
+  const sources = resource.isDirectory ? await listFilesAsync(resource.source) : [resource.source];
+  const base = path.dirname(resource.source);
+  return [...sources, resource.metaFile].map((source) => ({
+    name: path.posix.join(PATHS.STATIC_RESOURCES, ...path.relative(base, source).split(path.sep)),
+    source,
+  }));
+}
+
+// `<nom>` (dossier ou fichier sans extension) ou `<nom>.<extension>`, hors `-meta.xml`
+async function findResourceEntry(
+  resourceDir: string,
+  name: string
+): Promise<{ name: string; isDirectory: () => boolean } | undefined> {
+  try {
+    const entries = await fs.readdir(resourceDir, { withFileTypes: true });
+    return entries.find(
+      (entry) => (entry.name === name || entry.name.startsWith(name + '.')) && !entry.name.endsWith(META_SUFFIX)
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+async function listFilesAsync(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(async (entry) => {
+        const fullPath = path.join(dir, entry.name);
+        return entry.isDirectory() ? listFilesAsync(fullPath) : [fullPath];
+      })
+  );
+  return files.flat();
+}
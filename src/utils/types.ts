@@ -1,10 +1,14 @@
 import { z } from 'zod';
+import { isValidRange } from './versions.js';
+import { ITEM_TYPES } from './constants.js';
+import type { registryMetaFileSchema } from './constants.js';
 
 // --- Définition d’une dépendance d’un composant ou d’une classe
 export const DependencySchema = z.object({
   name: z.string(),
   type: z.string(),
-  version: z.string(),
+  // Version exacte ou plage semver (`^1.2.0`, `~2.0.1`)
+  version: z.string().refine(isValidRange, (v) => ({ message: `Plage de versions invalide : "${v}"` })),
 });
 
 // --- Schéma d’une version d’un composant ou d’une classe
@@ -14,6 +18,8 @@ export const versionSchema = z.object({
   hash: z.string(),
   staticresources: z.array(z.string()),
   registryDependencies: z.array(DependencySchema),
+  // Propriétés d'une étiquette (`value`, `categories`) ou d'une autorisation (`label`, `licensed`), pour `list`
+  details: z.record(z.string()).optional(),
 });
 
 // --- Schéma d’une entrée (composant ou classe) du registre
@@ -22,23 +28,129 @@ export const entrySchema = z.object({
   versions: z.array(versionSchema),
 });
 
-// --- Schéma du registre complet (liste des composants et classes)
+// --- Schéma du registre complet (liste des éléments par type)
+// Les types ajoutés après les composants et classes sont optionnels pour les registres plus anciens
 export const registrySchema = z.object({
   component: z.array(entrySchema),
   class: z.array(entrySchema),
+  aura: z.array(entrySchema).default([]),
+  trigger: z.array(entrySchema).default([]),
+  label: z.array(entrySchema).default([]),
+  permission: z.array(entrySchema).default([]),
+});
+
+// --- Profil de registre (URL + token propre) stocké dans le fichier d'authentification
+export const registryProfileSchema = z.object({
+  url: z.string().url(),
+  token: z.string().optional(),
+  refreshToken: z.string().optional(),
+});
+
+// --- Fichier de configuration local : profils nommés et profil actif
+export const registryConfigSchema = z.object({
+  current: z.string(),
+  profiles: z.record(registryProfileSchema),
+});
+
+// --- Charge utile (claims standards) du JWT délivré par le registre
+export const jwtPayloadSchema = z
+  .object({
+    sub: z.string().optional(),
+    iat: z.number().optional(),
+    exp: z.number().optional(),
+  })
+  .passthrough();
+
+// --- sfdx-project.json : seuls les dossiers de packages sont lus
+export const sfdxProjectSchema = z
+  .object({
+    packageDirectories: z
+      .array(z.object({ path: z.string().min(1), default: z.boolean().optional() }).passthrough())
+      .nonempty()
+      .optional(),
+  })
+  .passthrough();
+
+// --- registry-deps.json d'une archive : à l'installation, seuls les éléments marqués `test` sont lus
+export const registryDepsFileSchema = z.array(
+  z.object({ name: z.string(), type: z.enum(ITEM_TYPES), test: z.boolean().optional() }).passthrough()
+);
+
+// --- Manifeste du projet (registry.json) : éléments requis et version demandée
+export const registryManifestSchema = z.object({
+  component: z.record(z.string()).default({}),
+  class: z.record(z.string()).default({}),
+  aura: z.record(z.string()).default({}),
+  trigger: z.record(z.string()).default({}),
+  label: z.record(z.string()).default({}),
+  permission: z.record(z.string()).default({}),
+});
+
+// --- Entrée du lockfile : version exacte installée et empreinte publiée par le registre
+export const lockEntrySchema = z.object({
+  type: z.enum(ITEM_TYPES),
+  name: z.string(),
+  version: z.string(),
+  hash: z.string(),
+  // Clés `type:nom` des dépendances directes, elles-mêmes présentes dans le lockfile
+  dependencies: z.array(z.string()),
+});
+
+// --- Lockfile du projet (registry-lock.json)
+export const registryLockSchema = z.object({
+  lockfileVersion: z.literal(1),
+  items: z.record(lockEntrySchema),
 });
 
 export type Dependency = z.infer<typeof DependencySchema>;
 export type ComponentOrClassVersion = z.infer<typeof versionSchema>;
 export type ComponentOrClassEntry = z.infer<typeof entrySchema>;
 export type Registry = z.infer<typeof registrySchema>;
+export type RegistryProfile = z.infer<typeof registryProfileSchema>;
+export type RegistryConfig = z.infer<typeof registryConfigSchema>;
+export type JwtPayload = z.infer<typeof jwtPayloadSchema>;
+export type SfdxProject = z.infer<typeof sfdxProjectSchema>;
+export type RegistryManifest = z.infer<typeof registryManifestSchema>;
+export type LockEntry = z.infer<typeof lockEntrySchema>;
+export type RegistryLock = z.infer<typeof registryLockSchema>;
+export type RegistryMetaFile = z.infer<typeof registryMetaFileSchema>;
+
+// Registre effectivement utilisé par une commande, et d'où vient son URL.
+// Les tokens sont mutables : `authedFetch` les renouvelle en cours de commande.
+export type ResolvedRegistry = {
+  readonly url: string;
+  readonly profile?: string;
+  readonly source: 'flag' | 'env' | 'project' | 'profile';
+  // Autorise une reconnexion interactive quand le token ne peut pas être rafraîchi
+  readonly interactive: boolean;
+  // D'où vient le token : variable d'environnement (jamais persisté) ou fichier d'authentification
+  readonly tokenSource?: 'env' | 'profile';
+  token?: string;
+  refreshToken?: string;
+};
+
+export type AuthTokens = {
+  token: string;
+  refreshToken?: string;
+};
+
+export type ItemType = (typeof ITEM_TYPES)[number];
+
+// Conduite à tenir quand un élément téléchargé existe déjà dans le projet (`--conflict`)
+export type ConflictMode = 'skip' | 'overwrite' | 'backup' | 'prompt';
 
-export type ItemType = 'component' | 'class';
+// Partie de la version incrémentée par `deploy --bump`
+export type BumpType = 'patch' | 'minor' | 'major';
 
 export type RegistryDep = Readonly<{
   name: string;
   type: ItemType;
-  dependencies: Array<{ name: string; type: ItemType }>;
+  // `version` : plage déclarée dans registry-meta.json, sinon le registre choisit
+  dependencies: Array<{ name: string; type: ItemType; version?: string }>;
   staticresources: string[];
+  // Propriétés publiées avec une étiquette ou une autorisation (voir `readItemDetails`)
+  details?: Record<string, string>;
   version?: string;
+  // Classe de test (ou utilisée seulement par les tests) livrée avec les classes qu'elle couvre
+  test?: boolean;
 }>;
\ No newline at end of file
@@ -0,0 +1,58 @@
+import semver from 'semver';
+import { BumpType, ComponentOrClassEntry, ComponentOrClassVersion } from './types.js';
+
+export function isValidVersion(version: string): boolean {
+  return semver.valid(version) === version;
+}
+
+// Version exacte (`1.2.0`) ou plage semver (`^1.2.0`, `~2.0.1`, `>=1.0.0 <2.0.0`...)
+export function isValidRange(range: string): boolean {
+  return semver.validRange(range) !== null;
+}
+
+/**
+ * Compare deux versions : négatif si `a < b`, positif si `a > b`, 0 si égales.
+ * Les préversions (`1.0.0-beta.1`) sont inférieures à la version finale.
+ */
+export function compareVersions(a: string, b: string): number {
+  if (semver.valid(a) && semver.valid(b)) return semver.compare(a, b);
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+// Version suivante après `latest` (`0.0.0` pour un élément jamais publié) ; une préversion passe à sa version finale
+export function bumpVersion(latest: string | undefined, bump: BumpType): string {
+  return semver.inc(latest ?? '0.0.0', bump)!;
+}
+
+export function satisfiesRange(version: string, range: string): boolean {
+  return version === range || semver.satisfies(version, range);
+}
+
+// Le catalogue ne garantit pas l'ordre des versions publiées
+export function getLatestVersion(entry: ComponentOrClassEntry): ComponentOrClassVersion | undefined {
+  return entry.versions.reduce<ComponentOrClassVersion | undefined>(
+    (latest, v) => (!latest || compareVersions(v.version, latest.version) > 0 ? v : latest),
+    undefined
+  );
+}
+
+/**
+ * Plus haute version publiée satisfaisant toutes les plages données.
+ */
+export function getMaxSatisfying(entry: ComponentOrClassEntry, ranges: string[]): ComponentOrClassVersion | undefined {
+  return entry.versions
+    .filter((v) => ranges.every((range) => satisfiesRange(v.version, range)))
+    .reduce<ComponentOrClassVersion | undefined>(
+      (best, v) => (!best || compareVersions(v.version, best.version) > 0 ? v : best),
+      undefined
+    );
+}
+
+/**
+ * Versions publiées strictement après `from`, jusqu'à `to` inclus, de la plus ancienne à la plus récente.
+ */
+export function getVersionsBetween(entry: ComponentOrClassEntry, from: string, to: string): ComponentOrClassVersion[] {
+  return entry.versions
+    .filter((v) => compareVersions(v.version, from) > 0 && compareVersions(v.version, to) <= 0)
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
@@ -0,0 +1,76 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryConfigGet from '../../../../src/commands/registry/config/get.js';
+import { ENV_VARS } from '../../../../src/utils/constants.js';
+
+describe('registry config get', () => {
+  const sandbox = sinon.createSandbox();
+  const envServer = process.env[ENV_VARS.SERVER_URL];
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    if (envServer === undefined) delete process.env[ENV_VARS.SERVER_URL];
+    else process.env[ENV_VARS.SERVER_URL] = envServer;
+  });
+
+  it('resolves --server before the environment variable', async () => {
+    process.env[ENV_VARS.SERVER_URL] = 'https://env.example.com';
+    const result = await RegistryConfigGet.run(['--server', 'https://flag.example.com/']);
+    expect(result.url).to.equal('https://flag.example.com');
+    expect(result.source).to.equal('flag');
+  });
+
+  it('falls back to the environment variable', async () => {
+    process.env[ENV_VARS.SERVER_URL] = 'https://env.example.com/';
+    const result = await RegistryConfigGet.run([]);
+    expect(result.url).to.equal('https://env.example.com');
+    expect(result.source).to.equal('env');
+  });
+
+  describe('with REGISTRY_TOKEN', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+      delete process.env[ENV_VARS.SERVER_URL];
+      process.env[ENV_VARS.TOKEN] = 'ci-token';
+      projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-config-get-'));
+      fs.writeFileSync(
+        path.join(projectRoot, 'sfdx-project.json'),
+        JSON.stringify({ plugins: { registry: { server: 'https://project.example.com' } } })
+      );
+      sandbox.stub(process, 'cwd').returns(projectRoot);
+    });
+
+    afterEach(() => {
+      delete process.env[ENV_VARS.TOKEN];
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('does not send the environment token to a server read from sfdx-project.json', async () => {
+      const result = await RegistryConfigGet.run([]);
+      expect(result).to.include({ url: 'https://project.example.com', source: 'project', authenticated: false });
+    });
+
+    it('sends it to a server chosen explicitly', async () => {
+      const result = await RegistryConfigGet.run(['--server', 'https://project.example.com']);
+      expect(result).to.include({ source: 'flag', authenticated: true });
+    });
+  });
+
+  it('rejects a value that is neither a URL nor a known profile', async () => {
+    try {
+      await RegistryConfigGet.run(['--server', 'not-a-profile']);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('not-a-profile');
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import unzipper from 'unzipper';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryDeploy from '../../../src/commands/registry/deploy.js';
+import { FILENAMES } from '../../../src/utils/constants.js';
+
+describe('registry deploy --dry-run and --output', () => {
+  const sandbox = sinon.createSandbox();
+  let projectRoot: string;
+  let logs: string[];
+  let warn: ReturnType<typeof stubSfCommandUx>['warn'];
+
+  const write = (relative: string, content: string): void => {
+    const file = path.join(projectRoot, 'force-app/main/default', relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  beforeEach(() => {
+    const ux = stubSfCommandUx(sandbox);
+    logs = [];
+    ux.log.callsFake((message?: string) => logs.push(message ?? ''));
+    warn = ux.warn;
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-deploy-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    write('lwc/card/card.js', "import utils from 'c/utils';\nimport logo from '@salesforce/resourceUrl/logo';\n");
+    write('lwc/card/card.html', '<template><c-utils></c-utils></template>');
+    write('lwc/utils/utils.js', 'export default {};');
+    write('staticresources/logo.png', 'png');
+    write('staticresources/logo.resource-meta.xml', '<StaticResource/>');
+    fs.mkdirSync(path.join(projectRoot, 'force-app/main/default/classes'), { recursive: true });
+    sandbox.stub(process, 'cwd').returns(projectRoot);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const deployArgs = ['--type', 'component', '--name', 'card', '--version', '1.0.0', '--description', 'Carte'];
+
+  it('lists the package content without uploading', async () => {
+    const result = await RegistryDeploy.run([...deployArgs, '--dry-run', '--no-prompt']);
+
+    expect(result.dryRun).to.equal(true);
+    expect(result.files).to.have.members([
+      'card/card.html',
+      'card/card.js',
+      'utils/utils.js',
+      'staticresources/logo.png',
+      'staticresources/logo.resource-meta.xml',
+      FILENAMES.METADATA,
+      FILENAMES.DEPS,
+    ]);
+    expect(result.size).to.be.greaterThan(0);
+    const output = logs.join('\n');
+    expect(output).to.include('card (component)\n└── utils (component)');
+    expect(output).to.include('Ressources statiques : logo');
+    expect(output).to.include("rien n'a été envoyé");
+    // Sans connexion au registre, la simulation a lieu mais signale que la version n'a pas été contrôlée
+    expect(warn.args.flat().map(String).join('\n')).to.include('version non contrôlée');
+  });
+
+  it('keeps the generated archive with --output', async () => {
+    const zipPath = path.join(projectRoot, 'out', 'card.zip');
+    const result = await RegistryDeploy.run([...deployArgs, '--dry-run', '--output', zipPath, '--no-prompt']);
+
+    expect(result.output).to.equal(zipPath);
+    const directory = await unzipper.Open.file(zipPath);
+    expect(directory.files.map((file) => file.path)).to.have.members(result.files);
+    const metadata = directory.files.find((file) => file.path === FILENAMES.METADATA)!;
+    expect(JSON.parse((await metadata.buffer()).toString())).to.deep.equal({
+      name: 'card',
+      type: 'component',
+      version: '1.0.0',
+      description: 'Carte',
+    });
+  });
+
+  describe('directory static resources', () => {
+    const classArgs = ['--type', 'class', '--name', 'ChartController', '--version', '1.0.0', '--description', 'Chart'];
+
+    beforeEach(() => {
+      write(
+        'classes/ChartController/ChartController.cls',
+        "public class ChartController { PageReference lib = PageReference.forResource('chartjs', 'Chart.js'); }"
+      );
+      write('staticresources/chartjs/Chart.js', '// chart');
+      write('staticresources/chartjs/dist/chart.css', '.chart {}');
+      write('staticresources/chartjs.resource-meta.xml', '<StaticResource/>');
+    });
+
+    it('zips the whole folder of a resource referenced from Apex', async () => {
+      const zipPath = path.join(projectRoot, 'out', 'chart.zip');
+      const result = await RegistryDeploy.run([...classArgs, '--dry-run', '--output', zipPath, '--no-prompt']);
+
+      expect(result.items[0].staticresources).to.deep.equal(['chartjs']);
+      expect(result.files).to.include.members([
+        'ChartController/ChartController.cls',
+        'staticresources/chartjs/Chart.js',
+        'staticresources/chartjs/dist/chart.css',
+        'staticresources/chartjs.resource-meta.xml',
+      ]);
+      const directory = await unzipper.Open.file(zipPath);
+      const css = directory.files.find((file) => file.path === 'staticresources/chartjs/dist/chart.css')!;
+      expect((await css.buffer()).toString()).to.equal('.chart {}');
+    });
+
+    it('refuses forbidden files inside a resource folder', async () => {
+      write('staticresources/chartjs/install.sh', 'echo');
+      try {
+        await RegistryDeploy.run([...classArgs, '--dry-run', '--no-prompt']);
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.include('Fichier interdit');
+      }
+    });
+  });
+
+  it('bundles the test classes of the deployed classes, flagged as tests', async () => {
+    write('classes/Util/Util.cls', 'public class Util {}');
+    write('classes/UtilTest/UtilTest.cls', '@isTest private class UtilTest { void run() { TestData.make(); } }');
+    write('classes/TestData/TestData.cls', '@isTest public class TestData { public static void make() {} }');
+    write('classes/Other/Other.cls', 'public class Other {}');
+    const result = await RegistryDeploy.run([
+      ...['--type', 'class', '--name', 'Util', '--version', '1.0.0', '--description', 'Util'],
+      ...['--dry-run', '--no-prompt'],
+    ]);
+
+    expect(result.items.map((item) => [item.name, Boolean(item.test)])).to.deep.equal([
+      ['Util', false],
+      ['UtilTest', true],
+      ['TestData', true],
+    ]);
+    expect(result.files).to.include.members(['UtilTest/UtilTest.cls', 'TestData/TestData.cls']);
+    expect(logs.join('\n')).to.include('Classes de test : UtilTest, TestData');
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryDeploy from '../../../src/commands/registry/deploy.js';
+import { ENV_VARS, FILENAMES } from '../../../src/utils/constants.js';
+
+describe('registry deploy version checks', () => {
+  const sandbox = sinon.createSandbox();
+  let server: http.Server;
+  let url: string;
+  let projectRoot: string;
+  let uploads: number;
+
+  const published = (version: string) => ({
+    version,
+    description: version,
+    hash: 'sha256-x',
+    staticresources: [],
+    registryDependencies: [],
+  });
+  const catalog = {
+    component: [],
+    class: [{ name: 'MyUtil', versions: [published('1.2.0'), published('1.0.0'), published('1.1.0')] }],
+  };
+
+  const metaPath = (): string =>
+    path.join(projectRoot, 'force-app/main/default/classes/MyUtil', FILENAMES.REGISTRY_META);
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/catalog') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(catalog));
+      } else if (req.url === '/deploy' && req.method === 'POST') {
+        uploads++;
+        req.resume();
+        req.on('end', () => res.end('ok'));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+    process.env[ENV_VARS.TOKEN] = 'ci-token';
+    uploads = 0;
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-deploy-versions-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    fs.mkdirSync(path.dirname(metaPath()), { recursive: true });
+    fs.writeFileSync(path.join(path.dirname(metaPath()), 'MyUtil.cls'), 'public class MyUtil {}');
+    fs.writeFileSync(metaPath(), JSON.stringify({ version: '1.2.0', description: 'Utilitaires' }));
+    sandbox.stub(process, 'cwd').returns(projectRoot);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    delete process.env[ENV_VARS.TOKEN];
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const deploy = (...flags: string[]) =>
+    RegistryDeploy.run(['--type', 'class', '--name', 'MyUtil', '--server', url, '--no-prompt', ...flags]);
+
+  async function expectRefused(flags: string[], message: string): Promise<void> {
+    try {
+      await deploy(...flags);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include(message);
+    }
+    expect(uploads).to.equal(0);
+  }
+
+  it('refuses a version already published before uploading', async () => {
+    await expectRefused([], 'MyUtil@1.2.0 est déjà publié');
+  });
+
+  it('refuses an already published version in a dry run too', async () => {
+    await expectRefused(['--dry-run'], 'MyUtil@1.2.0 est déjà publié');
+  });
+
+  it('refuses a version lower than the latest one', async () => {
+    await expectRefused(['--version', '1.1.5'], 'inférieure à la dernière version publiée de MyUtil (1.2.0)');
+  });
+
+  it('uploads a higher version', async () => {
+    const result = await deploy('--version', '1.10.0');
+    expect(result.version).to.equal('1.10.0');
+    expect(uploads).to.equal(1);
+  });
+
+  it('publishes the next version with --bump and records it in registry-meta.json', async () => {
+    const result = await deploy('--bump', 'minor');
+    expect(result.version).to.equal('1.3.0');
+    expect(uploads).to.equal(1);
+    expect(JSON.parse(fs.readFileSync(metaPath(), 'utf8'))).to.deep.equal({
+      version: '1.3.0',
+      description: 'Utilitaires',
+    });
+  });
+
+  it('creates a valid registry-meta.json with --bump when the item has none', async () => {
+    fs.rmSync(metaPath());
+    await deploy('--bump', 'patch', '--description', 'Correctifs');
+    expect(JSON.parse(fs.readFileSync(metaPath(), 'utf8'))).to.deep.equal({
+      description: 'Correctifs',
+      version: '1.2.1',
+    });
+
+    // Le fichier créé fournit la version et la description du déploiement suivant
+    const next = await deploy();
+    expect(next).to.include({ version: '1.2.1', description: 'Correctifs' });
+    expect(uploads).to.equal(2);
+  });
+
+  it('computes the bumped version without writing it in a dry run', async () => {
+    const result = await deploy('--bump', 'patch', '--dry-run');
+    expect(result.version).to.equal('1.2.1');
+    expect(uploads).to.equal(0);
+    expect(JSON.parse(fs.readFileSync(metaPath(), 'utf8'))).to.include({ version: '1.2.0' });
+  });
+});
@@ -1,8 +1,403 @@
 // test/commands/registry/download.test.ts
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import archiver from 'archiver';
+import fsExtra from 'fs-extra';
 import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryDownload from '../../../src/commands/registry/download.js';
+import { ENV_VARS, FILENAMES } from '../../../src/utils/constants.js';
+import { readLockfile, readManifest } from '../../../src/utils/manifest.js';
+import {
+  formatDependencyTree,
+  formatRef,
+  resolveDependencyForest,
+  resolveDependencyTree,
+} from '../../../src/utils/dependencies.js';
+import { Registry } from '../../../src/utils/types.js';
+import { scanProject } from '../../../src/utils/scanner.js';
+import { publishedVersion } from '../../helpers/catalog.js';
 
 describe('registry download (mock)', () => {
   it('should pass a dummy test', () => {
     expect(true).to.equal(true);
   });
 });
+
+describe('registry download dependency resolution', () => {
+  const catalog: Registry = {
+    component: [
+      { name: 'card', versions: [publishedVersion('1.0.0', [{ name: 'utils', type: 'component', version: '2.0.0' }])] },
+      {
+        name: 'utils',
+        versions: [publishedVersion('2.0.0', [{ name: 'Helper', type: 'class', version: '1.1.0' }])],
+      },
+      {
+        name: 'loopA',
+        versions: [publishedVersion('1.0.0', [{ name: 'loopB', type: 'component', version: '1.0.0' }])],
+      },
+      {
+        name: 'loopB',
+        versions: [publishedVersion('1.0.0', [{ name: 'loopA', type: 'component', version: '1.0.0' }])],
+      },
+      { name: 'broken', versions: [publishedVersion('1.0.0', [{ name: 'Missing', type: 'class', version: '9.9.9' }])] },
+    ],
+    class: [{ name: 'Helper', versions: [publishedVersion('1.1.0')] }],
+    aura: [],
+    trigger: [],
+    label: [],
+    permission: [],
+  };
+
+  it('installs transitive dependencies before the items that use them', () => {
+    const { installOrder } = resolveDependencyTree(catalog, { type: 'component', name: 'card', version: '1.0.0' });
+    expect(installOrder.map(formatRef)).to.deep.equal(['Helper@1.1.0', 'utils@2.0.0', 'card@1.0.0']);
+  });
+
+  it('prints the resolved tree', () => {
+    const { tree } = resolveDependencyTree(catalog, { type: 'component', name: 'card', version: '1.0.0' });
+    expect(formatDependencyTree(tree)).to.equal(
+      ['card@1.0.0 (component)', '└── utils@2.0.0 (component)', '    └── Helper@1.1.0 (class)'].join('\n')
+    );
+  });
+
+  it('fails on cyclic dependencies', () => {
+    expect(() => resolveDependencyTree(catalog, { type: 'component', name: 'loopA', version: '1.0.0' })).to.throw(
+      'loopA@1.0.0 → loopB@1.0.0 → loopA@1.0.0'
+    );
+  });
+
+  it('fails on dependencies missing from the catalog', () => {
+    expect(() => resolveDependencyTree(catalog, { type: 'component', name: 'broken', version: '1.0.0' })).to.throw(
+      'Missing@9.9.9'
+    );
+  });
+});
+
+describe('registry download semver ranges', () => {
+  const catalog: Registry = {
+    component: [
+      { name: 'card', versions: [publishedVersion('1.0.0', [{ name: 'Helper', type: 'class', version: '^1.1.0' }])] },
+      { name: 'table', versions: [publishedVersion('1.0.0', [{ name: 'Helper', type: 'class', version: '~1.1.0' }])] },
+      { name: 'legacy', versions: [publishedVersion('1.0.0', [{ name: 'Helper', type: 'class', version: '^2.0.0' }])] },
+    ],
+    class: [
+      {
+        name: 'Helper',
+        versions: [
+          publishedVersion('1.1.0'),
+          publishedVersion('1.2.3'),
+          publishedVersion('1.1.4'),
+          publishedVersion('2.0.0-beta.1'),
+        ],
+      },
+    ],
+    aura: [],
+    trigger: [],
+    label: [],
+    permission: [],
+  };
+
+  it('picks the highest published version satisfying the range', () => {
+    const { installOrder } = resolveDependencyTree(catalog, { type: 'component', name: 'card', version: '1.0.0' });
+    expect(installOrder.map(formatRef)).to.deep.equal(['Helper@1.2.3', 'card@1.0.0']);
+  });
+
+  it('picks a version satisfying every item that shares a dependency', () => {
+    const { installOrder } = resolveDependencyForest(catalog, [
+      { type: 'component', name: 'card', version: '1.0.0' },
+      { type: 'component', name: 'table', version: '1.0.0' },
+    ]);
+    expect(installOrder.map(formatRef)).to.deep.equal(['Helper@1.1.4', 'card@1.0.0', 'table@1.0.0']);
+  });
+
+  it('keeps a preferred version while it still satisfies the ranges', () => {
+    const { installOrder } = resolveDependencyTree(
+      catalog,
+      { type: 'component', name: 'card', version: '1.0.0' },
+      { preferred: new Map([['class:Helper', '1.1.0']]) }
+    );
+    expect(installOrder.map(formatRef)).to.deep.equal(['Helper@1.1.0', 'card@1.0.0']);
+  });
+
+  it('reports the chains of incompatible ranges', () => {
+    expect(() =>
+      resolveDependencyForest(catalog, [
+        { type: 'component', name: 'card', version: '1.0.0' },
+        { type: 'component', name: 'legacy', version: '1.0.0' },
+      ])
+    ).to.throw(
+      /Conflit de versions pour Helper[\s\S]*\^1\.1\.0 \(card@1\.0\.0 → Helper@\^1\.1\.0\)[\s\S]*\^2\.0\.0 \(legacy@1\.0\.0/
+    );
+  });
+
+  it('drops the ranges required by a version abandoned after a restart', () => {
+    // X@^1.0.0 choisit d'abord X@1.1.0 (qui exige C ^2), puis Y impose X ~1.0.0 : seul C ^1 compte alors
+    const withRestart: Registry = {
+      ...catalog,
+      component: [
+        {
+          name: 'X',
+          versions: [
+            publishedVersion('1.0.0', [{ name: 'C', type: 'component', version: '^1.0.0' }]),
+            publishedVersion('1.1.0', [{ name: 'C', type: 'component', version: '^2.0.0' }]),
+          ],
+        },
+        { name: 'Y', versions: [publishedVersion('1.0.0', [{ name: 'X', type: 'component', version: '~1.0.0' }])] },
+        { name: 'C', versions: [publishedVersion('1.0.0'), publishedVersion('2.0.0')] },
+      ],
+    };
+    const { installOrder } = resolveDependencyForest(withRestart, [
+      { type: 'component', name: 'X', version: '^1.0.0' },
+      { type: 'component', name: 'Y', version: '1.0.0' },
+    ]);
+    expect(installOrder.map(formatRef)).to.deep.equal(['C@1.0.0', 'X@1.0.0', 'Y@1.0.0']);
+  });
+
+  it('only matches prerelease versions requested explicitly', () => {
+    expect(() => resolveDependencyTree(catalog, { type: 'component', name: 'legacy', version: '1.0.0' })).to.throw(
+      'Aucune version de Helper ne satisfait ^2.0.0'
+    );
+    const { tree } = resolveDependencyTree(catalog, { type: 'class', name: 'Helper', version: '^2.0.0-beta.1' });
+    expect(tree.version).to.equal('2.0.0-beta.1');
+  });
+});
+
+describe('registry download --conflict', () => {
+  const sandbox = sinon.createSandbox();
+  let server: http.Server;
+  let url: string;
+  let projectRoot: string;
+  let targetDir: string;
+
+  const catalog: Registry = {
+    component: [
+      { name: 'card', versions: [publishedVersion('1.0.0')] },
+      { name: 'chart', versions: [publishedVersion('1.0.0')] },
+      {
+        name: 'panel',
+        versions: [
+          publishedVersion('1.0.0', [
+            { name: 'card', type: 'component', version: '^1.0.0' },
+            { name: 'Helper', type: 'class', version: '^1.0.0' },
+          ]),
+        ],
+      },
+    ],
+    class: [{ name: 'Helper', versions: [publishedVersion('1.0.0')] }],
+    aura: [],
+    trigger: [],
+    label: [],
+    permission: [],
+  };
+
+  async function zipOf(files: Record<string, string>): Promise<Buffer> {
+    const archive = archiver('zip');
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    for (const [name, content] of Object.entries(files)) archive.append(content, { name });
+    await archive.finalize();
+    return Buffer.concat(chunks);
+  }
+
+  before(async () => {
+    const archives: Record<string, Buffer> = {
+      '/download/component/card/1.0.0': await zipOf({
+        'card/card.js': '// registre',
+        'card/card.html': '<template></template>',
+        'staticresources/logo.resource': 'logo',
+      }),
+      '/download/component/chart/1.0.0': await zipOf({
+        'chart/chart.js': '// chart',
+        'staticresources/chartjs/Chart.js': '// chartjs',
+        'staticresources/chartjs/dist/chart.css': '.chart {}',
+        'staticresources/chartjs.resource-meta.xml': '<StaticResource/>',
+      }),
+      '/download/component/panel/1.0.0': await zipOf({ 'panel/panel.js': '// panel' }),
+      '/download/class/Helper/1.0.0': await zipOf({
+        'Helper/Helper.cls': 'public class Helper {}',
+        'HelperTest/HelperTest.cls': '@isTest private class HelperTest {}',
+        'registry-deps.json': JSON.stringify([
+          { name: 'Helper', type: 'class', dependencies: [], staticresources: [] },
+          { name: 'HelperTest', type: 'class', dependencies: [], staticresources: [], test: true },
+        ]),
+      }),
+    };
+    for (const type of ['component', 'class'] as const) {
+      for (const entry of catalog[type]) {
+        const zip = archives[`/download/${type}/${entry.name}/1.0.0`];
+        entry.versions[0].hash = `sha256-${createHash('sha256').update(zip).digest('base64')}`;
+      }
+    }
+    server = http.createServer((req, res) => {
+      if (req.url === '/catalog') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(catalog));
+      } else if (req.url && req.url in archives) {
+        res.end(archives[req.url]);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+    process.env[ENV_VARS.TOKEN] = 'ci-token';
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-download-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    targetDir = path.join(projectRoot, 'force-app/main/default');
+    fs.mkdirSync(path.join(targetDir, 'lwc/card'), { recursive: true });
+    fs.writeFileSync(path.join(targetDir, 'lwc/card/card.js'), '// local');
+    fs.writeFileSync(path.join(targetDir, 'lwc/card/local.css'), '');
+    sandbox.stub(process, 'cwd').returns(projectRoot);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    delete process.env[ENV_VARS.TOKEN];
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const download = (conflict: string, name = 'card') =>
+    RegistryDownload.run([
+      ...['--type', 'component', '--name', name, '--version', '1.0.0'],
+      ...['--target-dir', targetDir, '--conflict', conflict, '--server', url, '--no-prompt'],
+    ]);
+
+  it('keeps existing items by default', async () => {
+    const result = await download('skip');
+    expect(result.skipped).to.deep.equal(['card@1.0.0']);
+    expect(fs.readFileSync(path.join(targetDir, 'lwc/card/card.js'), 'utf8')).to.equal('// local');
+  });
+
+  it('replaces existing items with overwrite', async () => {
+    const result = await download('overwrite');
+    expect(result.installed).to.deep.equal(['card', path.join('staticresources', 'logo.resource')]);
+    expect(fs.readdirSync(path.join(targetDir, 'lwc'))).to.deep.equal(['card']);
+    expect(fs.readdirSync(path.join(targetDir, 'lwc/card'))).to.deep.equal(['card.html', 'card.js']);
+  });
+
+  it('keeps a timestamped copy of existing items with backup, outside the package directories', async () => {
+    fs.mkdirSync(path.join(targetDir, 'classes/Helper'), { recursive: true });
+    fs.writeFileSync(path.join(targetDir, 'classes/Helper/Helper.cls'), '// local');
+
+    await download('backup', 'panel');
+
+    expect(fs.readdirSync(path.join(targetDir, 'lwc')).sort()).to.deep.equal(['card', 'panel']);
+    const [stamp] = fs.readdirSync(path.join(projectRoot, FILENAMES.BACKUPS));
+    expect(stamp).to.match(/^\d{8}-\d{6}$/);
+    const backupDir = path.join(projectRoot, FILENAMES.BACKUPS, stamp);
+    expect(fs.readFileSync(path.join(backupDir, 'lwc/card/card.js'), 'utf8')).to.equal('// local');
+    expect(fs.readFileSync(path.join(backupDir, 'classes/Helper/Helper.cls'), 'utf8')).to.equal('// local');
+    expect(fs.readFileSync(path.join(targetDir, 'lwc/card/card.js'), 'utf8')).to.equal('// registre');
+
+    // `deploy` indexe les versions installées, pas les sauvegardes
+    const index = await scanProject(projectRoot);
+    expect(index.items.component).to.have.members(['card', 'panel']);
+    expect(index.locations.component.card).to.equal(path.join(targetDir, 'lwc/card'));
+    expect(index.locations.class.Helper).to.equal(path.join(targetDir, 'classes/Helper'));
+  });
+
+  it('only locks the items actually installed', async () => {
+    await download('skip', 'panel');
+
+    const lock = await readLockfile(projectRoot);
+    // card, conservé tel quel, est un élément local : ni verrouillé ni listé comme dépendance
+    expect(Object.keys(lock!.items)).to.deep.equal(['class:Helper', 'component:panel']);
+    expect(lock!.items['component:panel'].dependencies).to.deep.equal(['class:Helper']);
+    expect((await readManifest(projectRoot)).component).to.deep.equal({ panel: '^1.0.0' });
+  });
+
+  it('keeps the lock entry of an item kept as it is', async () => {
+    const locked = { type: 'component', name: 'card', version: '1.0.0', hash: 'sha256-local', dependencies: [] };
+    fs.writeFileSync(
+      path.join(projectRoot, FILENAMES.LOCK),
+      JSON.stringify({ lockfileVersion: 1, items: { 'component:card': locked } })
+    );
+    fs.writeFileSync(path.join(projectRoot, FILENAMES.MANIFEST), JSON.stringify({ component: { card: '^1.0.0' } }));
+
+    await download('skip', 'panel');
+
+    const lock = await readLockfile(projectRoot);
+    expect(lock!.items['component:card']).to.deep.equal(locked);
+    expect(lock!.items['component:panel'].dependencies).to.deep.equal(['component:card', 'class:Helper']);
+  });
+
+  it('refuses the prompt mode without a terminal', async () => {
+    try {
+      await download('prompt');
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('--conflict prompt');
+    }
+  });
+
+  it('restores the project when an item cannot be placed', async () => {
+    // `classes` est un fichier : Helper ne peut pas être placé, après card et logo
+    fs.writeFileSync(path.join(targetDir, 'classes'), '');
+    try {
+      await download('overwrite', 'panel');
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('installation annulée');
+    }
+    expect(fs.readdirSync(path.join(targetDir, 'lwc'))).to.deep.equal(['card']);
+    expect(fs.readFileSync(path.join(targetDir, 'lwc/card/card.js'), 'utf8')).to.equal('// local');
+    expect(fs.existsSync(path.join(targetDir, 'staticresources/logo.resource'))).to.equal(false);
+  });
+
+  it('reports the install error even when the staging folder cannot be removed', async () => {
+    fs.writeFileSync(path.join(targetDir, 'classes'), '');
+    const isStagingDir = (target: string): boolean => path.basename(target).startsWith('registry-download-');
+    const remove = sandbox.stub(fsExtra, 'remove').callThrough();
+    remove.withArgs(sinon.match(isStagingDir)).rejects(new Error('EBUSY'));
+    try {
+      await download('overwrite', 'panel');
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('installation annulée');
+    }
+    const stagingDirs = remove.args.map(([target]) => target).filter(isStagingDir);
+    stagingDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+    expect(stagingDirs).to.have.length(1);
+  });
+
+  it('restores directory static resources as folders', async () => {
+    const result = await download('skip', 'chart');
+    expect(result.installed).to.deep.equal([
+      'chart',
+      path.join('staticresources', 'chartjs'),
+      path.join('staticresources', 'chartjs.resource-meta.xml'),
+    ]);
+    expect(fs.readFileSync(path.join(targetDir, 'staticresources/chartjs/dist/chart.css'), 'utf8')).to.equal(
+      '.chart {}'
+    );
+  });
+
+  it('places the bundled test classes unless --skip-tests is set', async () => {
+    const downloadHelper = (...flags: string[]) =>
+      RegistryDownload.run([
+        ...['--type', 'class', '--name', 'Helper', '--version', '1.0.0', '--target-dir', targetDir],
+        ...['--conflict', 'overwrite', '--server', url, '--no-prompt', ...flags],
+      ]);
+
+    expect((await downloadHelper('--skip-tests')).installed).to.deep.equal(['Helper']);
+    expect(fs.existsSync(path.join(targetDir, 'classes/HelperTest'))).to.equal(false);
+
+    expect((await downloadHelper()).installed).to.deep.equal(['Helper', 'HelperTest']);
+    expect(fs.readFileSync(path.join(targetDir, 'classes/HelperTest/HelperTest.cls'), 'utf8')).to.include('@isTest');
+  });
+});
@@ -0,0 +1,116 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryGraph from '../../../src/commands/registry/graph.js';
+import { buildRegistryGraph, formatGraphDot, formatGraphMermaid } from '../../../src/utils/graph.js';
+import { FILENAMES } from '../../../src/utils/constants.js';
+import { Registry } from '../../../src/utils/types.js';
+import { publishedVersion } from '../../helpers/catalog.js';
+
+describe('registry graph', () => {
+  const sandbox = sinon.createSandbox();
+  let projectRoot: string;
+
+  const write = (relative: string, content: string): void => {
+    const file = path.join(projectRoot, 'force-app/main/default', relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-graph-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    write('lwc/card/card.js', "import panel from 'c/panel';\nimport getData from '@salesforce/apex/Helper.getData';\n");
+    write('lwc/panel/panel.js', "import card from 'c/card';\n");
+    write('classes/Helper/Helper.cls', 'public class Helper {}');
+    fs.writeFileSync(
+      path.join(projectRoot, FILENAMES.LOCK),
+      JSON.stringify({
+        lockfileVersion: 1,
+        items: {
+          'class:Helper': { type: 'class', name: 'Helper', version: '1.2.0', hash: 'sha256-x', dependencies: [] },
+        },
+      })
+    );
+    sandbox.stub(process, 'cwd').returns(projectRoot);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('builds the graph of a local item, with cycles and registry items marked', async () => {
+    const graph = await RegistryGraph.run(['--type', 'component', '--name', 'card', '--no-prompt']);
+
+    expect(graph.nodes).to.deep.equal([
+      { id: 'component:card', type: 'component', name: 'card', origin: 'local' },
+      { id: 'component:panel', type: 'component', name: 'panel', origin: 'local' },
+      { id: 'class:Helper', type: 'class', name: 'Helper', version: '1.2.0', origin: 'registry' },
+    ]);
+    expect(graph.cycles).to.deep.equal([['component:card', 'component:panel', 'component:card']]);
+    expect(graph.edges.filter((edge) => edge.cycle).map((edge) => `${edge.from}→${edge.to}`)).to.deep.equal([
+      'component:card→component:panel',
+      'component:panel→component:card',
+    ]);
+  });
+
+  it('fails on an item missing from the project', async () => {
+    try {
+      await RegistryGraph.run(['--type', 'component', '--name', 'nope', '--no-prompt']);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('--registry');
+    }
+  });
+
+  describe('registry items', () => {
+    const catalog: Registry = {
+      component: [
+        {
+          name: 'card',
+          versions: [
+            publishedVersion('1.0.0', [
+              { name: 'Helper', type: 'class', version: '^1.0.0' },
+              { name: 'Missing', type: 'class', version: '1.0.0' },
+            ]),
+          ],
+        },
+      ],
+      class: [{ name: 'Helper', versions: [publishedVersion('1.0.0'), publishedVersion('1.4.0')] }],
+      aura: [],
+      trigger: [],
+      label: [],
+      permission: [],
+    };
+
+    it('resolves each range to the highest published version and flags missing items', () => {
+      const graph = buildRegistryGraph(catalog, { type: 'component', name: 'card', version: '1.0.0' });
+      expect(graph.nodes.map((node) => [node.id, node.missing ?? false])).to.deep.equal([
+        ['component:card@1.0.0', false],
+        ['class:Helper@1.4.0', false],
+        ['class:Missing@1.0.0', true],
+      ]);
+      expect(graph.edges[0]).to.deep.equal({
+        from: 'component:card@1.0.0',
+        to: 'class:Helper@1.4.0',
+        range: '^1.0.0',
+        cycle: false,
+      });
+    });
+
+    it('renders Mermaid and Graphviz DOT', () => {
+      const graph = buildRegistryGraph(catalog, { type: 'component', name: 'card', version: '1.0.0' });
+      const mermaid = formatGraphMermaid(graph);
+      expect(mermaid).to.include('n0["card@1.0.0 (component)"]:::registry');
+      expect(mermaid).to.include('n0 -->|"^1.0.0"| n1');
+      expect(mermaid).to.include('n2["Missing@1.0.0 (class)"]:::missing');
+      const dot = formatGraphDot(graph);
+      expect(dot).to.include('"component:card@1.0.0" -> "class:Helper@1.4.0" [label="^1.0.0"];');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryInfo from '../../../src/commands/registry/info.js';
+import { findDependents } from '../../../src/utils/dependencies.js';
+import { ENV_VARS } from '../../../src/utils/constants.js';
+import { ComponentOrClassVersion, Registry } from '../../../src/utils/types.js';
+import { publishedVersion } from '../../helpers/catalog.js';
+
+describe('registry info', () => {
+  const sandbox = sinon.createSandbox();
+  let server: http.Server;
+  let url: string;
+
+  const version = (
+    v: string,
+    deps: ComponentOrClassVersion['registryDependencies'] = [],
+    staticresources: string[] = []
+  ) => publishedVersion(v, deps, { description: `Changements ${v}`, hash: `sha256-${v}`, staticresources });
+
+  const catalog: Registry = {
+    component: [
+      {
+        name: 'card',
+        versions: [
+          version('1.0.0'),
+          version('1.1.0', [{ name: 'Helper', type: 'class', version: '^1.0.0' }], ['logo']),
+        ],
+      },
+      { name: 'panel', versions: [version('2.0.0', [{ name: 'card', type: 'component', version: '^1.0.0' }])] },
+      { name: 'broken', versions: [version('1.0.0', [{ name: 'Missing', type: 'class', version: '1.0.0' }])] },
+      { name: 'Shared', versions: [version('1.0.0')] },
+    ],
+    class: [
+      {
+        name: 'Helper',
+        versions: [version('1.0.0'), version('1.2.0', [{ name: 'Formatter', type: 'class', version: '~2.0.0' }])],
+      },
+      { name: 'Formatter', versions: [version('2.0.1')] },
+      { name: 'Shared', versions: [version('1.0.0')] },
+    ],
+    aura: [],
+    trigger: [],
+    label: [],
+    permission: [],
+  };
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/catalog') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(catalog));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+    process.env[ENV_VARS.TOKEN] = 'ci-token';
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    delete process.env[ENV_VARS.TOKEN];
+  });
+
+  const info = (...argv: string[]) => RegistryInfo.run([...argv, '--server', url, '--no-prompt']);
+
+  it('details the latest version with its dependencies resolved recursively', async () => {
+    const result = await info('card');
+
+    expect(result).to.include({ type: 'component', name: 'card', version: '1.1.0', latest: '1.1.0' });
+    expect(result.hash).to.equal('sha256-1.1.0');
+    expect(result.staticResources).to.deep.equal(['logo']);
+    expect(result.versions).to.deep.equal([
+      { version: '1.1.0', hash: 'sha256-1.1.0', description: 'Changements 1.1.0' },
+      { version: '1.0.0', hash: 'sha256-1.0.0', description: 'Changements 1.0.0' },
+    ]);
+    expect(result.dependencies).to.deep.equal([
+      {
+        type: 'class',
+        name: 'Helper',
+        version: '1.2.0',
+        dependencies: [{ type: 'class', name: 'Formatter', version: '2.0.1', dependencies: [] }],
+      },
+    ]);
+    expect(result.dependents).to.deep.equal([{ type: 'component', name: 'panel', version: '2.0.0', range: '^1.0.0' }]);
+  });
+
+  it('details the version given after @', async () => {
+    const result = await info('Helper@1.0.0');
+
+    expect(result).to.include({ type: 'class', version: '1.0.0', latest: '1.2.0' });
+    expect(result.dependencies).to.deep.equal([]);
+    expect(result.dependents).to.deep.equal([{ type: 'component', name: 'card', version: '1.1.0', range: '^1.0.0' }]);
+  });
+
+  it('reports unresolved dependencies without failing', async () => {
+    const result = await info('broken');
+    expect(result.unresolved).to.include('Missing@1.0.0');
+    expect(result.dependencies).to.deep.equal([]);
+  });
+
+  it('asks for --type when the name exists under several types', async () => {
+    try {
+      await info('Shared');
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('précisez --type');
+    }
+    expect((await info('Shared', '--type', 'class')).type).to.equal('class');
+  });
+
+  it('fails on an unknown item or version', async () => {
+    for (const name of ['nope', 'card@9.9.9']) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await info(name);
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.match(/introuvable/);
+      }
+    }
+  });
+
+  it('lists every published version depending on an item, newest first', () => {
+    const withHistory: Registry = {
+      ...catalog,
+      component: [
+        {
+          name: 'page',
+          versions: [
+            version('1.0.0', [{ name: 'Formatter', type: 'class', version: '^2.0.0' }]),
+            version('1.1.0', [{ name: 'Formatter', type: 'class', version: '^2.0.1' }]),
+            version('2.0.0'),
+          ],
+        },
+      ],
+    };
+    expect(findDependents(withHistory, { type: 'class', name: 'Formatter' })).to.deep.equal([
+      { type: 'component', name: 'page', version: '1.1.0', range: '^2.0.1' },
+      { type: 'component', name: 'page', version: '1.0.0', range: '^2.0.0' },
+      { type: 'class', name: 'Helper', version: '1.2.0', range: '~2.0.0' },
+    ]);
+  });
+});
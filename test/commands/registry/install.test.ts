@@ -0,0 +1,203 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import archiver from 'archiver';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryInstall from '../../../src/commands/registry/install.js';
+import { resolveDependencyForest } from '../../../src/utils/dependencies.js';
+import { getLockInstallOrder, readLockfile, readManifest, recordInstall } from '../../../src/utils/manifest.js';
+import { ENV_VARS, FILENAMES } from '../../../src/utils/constants.js';
+import { Registry, RegistryLock } from '../../../src/utils/types.js';
+import { publishedVersion } from '../../helpers/catalog.js';
+
+describe('registry install', () => {
+  const sandbox = sinon.createSandbox();
+  let projectRoot: string;
+
+  const catalog: Registry = {
+    component: [
+      {
+        name: 'card',
+        versions: [
+          publishedVersion('1.0.0', [{ name: 'Helper', type: 'class', version: '1.0.0' }], { hash: 'sha256-1.0.0' }),
+          publishedVersion('2.0.0', [{ name: 'Formatter', type: 'class', version: '1.0.0' }], { hash: 'sha256-2.0.0' }),
+        ],
+      },
+    ],
+    class: [
+      { name: 'Helper', versions: [publishedVersion('1.0.0', [], { hash: 'sha256-1.0.0' })] },
+      { name: 'Formatter', versions: [publishedVersion('1.0.0', [], { hash: 'sha256-1.0.0' })] },
+    ],
+    aura: [],
+    trigger: [],
+    label: [],
+    permission: [],
+  };
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-install-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    sandbox.stub(process, 'cwd').returns(projectRoot);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('records the downloaded item in the manifest and its resolved tree in the lockfile', async () => {
+    await recordInstall(
+      projectRoot,
+      resolveDependencyForest(catalog, [{ type: 'component', name: 'card', version: '1.0.0' }])
+    );
+
+    expect(await readManifest(projectRoot)).to.deep.equal({
+      component: { card: '^1.0.0' },
+      class: {},
+      aura: {},
+      trigger: {},
+      label: {},
+      permission: {},
+    });
+    const lock = await readLockfile(projectRoot);
+    expect(lock?.items['component:card']).to.deep.equal({
+      type: 'component',
+      name: 'card',
+      version: '1.0.0',
+      hash: 'sha256-1.0.0',
+      dependencies: ['class:Helper'],
+    });
+    expect(getLockInstallOrder(lock!).map((entry) => entry.name)).to.deep.equal(['Helper', 'card']);
+  });
+
+  it('drops lockfile entries no longer required by the manifest', async () => {
+    await recordInstall(
+      projectRoot,
+      resolveDependencyForest(catalog, [{ type: 'component', name: 'card', version: '1.0.0' }])
+    );
+    await recordInstall(
+      projectRoot,
+      resolveDependencyForest(catalog, [{ type: 'component', name: 'card', version: '2.0.0' }])
+    );
+
+    const lock = await readLockfile(projectRoot);
+    expect(Object.keys(lock!.items)).to.deep.equal(['class:Formatter', 'component:card']);
+  });
+
+  it('fails without a lockfile', async () => {
+    try {
+      await RegistryInstall.run(['--no-prompt']);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include(FILENAMES.LOCK);
+    }
+  });
+
+  it('has nothing to install with an empty lockfile', async () => {
+    fs.writeFileSync(path.join(projectRoot, FILENAMES.LOCK), JSON.stringify({ lockfileVersion: 1, items: {} }));
+    const result = await RegistryInstall.run(['--no-prompt']);
+    expect(result.installed).to.deep.equal([]);
+    expect(result.skipped).to.deep.equal([]);
+  });
+});
+
+describe('registry install from the lockfile', () => {
+  const sandbox = sinon.createSandbox();
+  let server: http.Server;
+  let url: string;
+  let projectRoot: string;
+  let targetDir: string;
+  const archives: Record<string, Buffer> = {};
+  const lock: RegistryLock = { lockfileVersion: 1, items: {} };
+
+  async function zipOf(files: Record<string, string>): Promise<Buffer> {
+    const archive = archiver('zip');
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    for (const [name, content] of Object.entries(files)) archive.append(content, { name });
+    await archive.finalize();
+    return Buffer.concat(chunks);
+  }
+
+  before(async () => {
+    archives['/download/class/Helper/1.0.0'] = await zipOf({ 'Helper/Helper.cls': 'public class Helper {}' });
+    archives['/download/component/card/1.0.0'] = await zipOf({ 'card/card.js': '// registre' });
+    const published = (zip: Buffer) =>
+      publishedVersion('1.0.0', [], { hash: `sha256-${createHash('sha256').update(zip).digest('base64')}` });
+    const catalog: Registry = {
+      component: [{ name: 'card', versions: [published(archives['/download/component/card/1.0.0'])] }],
+      class: [{ name: 'Helper', versions: [published(archives['/download/class/Helper/1.0.0'])] }],
+      aura: [],
+      trigger: [],
+      label: [],
+      permission: [],
+    };
+    for (const type of ['component', 'class'] as const) {
+      const [{ name, versions }] = catalog[type];
+      lock.items[`${type}:${name}`] = { type, name, version: '1.0.0', hash: versions[0].hash, dependencies: [] };
+    }
+    server = http.createServer((req, res) => {
+      if (req.url === '/catalog') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(catalog));
+      } else if (req.url && req.url in archives) {
+        res.end(archives[req.url]);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+    process.env[ENV_VARS.TOKEN] = 'ci-token';
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-install-lock-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    fs.writeFileSync(path.join(projectRoot, FILENAMES.LOCK), JSON.stringify(lock));
+    targetDir = path.join(projectRoot, 'force-app/main/default');
+    sandbox.stub(process, 'cwd').returns(projectRoot);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    delete process.env[ENV_VARS.TOKEN];
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const write = (relative: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(targetDir, relative)), { recursive: true });
+    fs.writeFileSync(path.join(targetDir, relative), content);
+  };
+
+  it('keeps present items matching the lockfile and replaces those that differ', async () => {
+    write('lwc/card/card.js', '// registre');
+    write('classes/Helper/Helper.cls', 'public class Helper { /* modifiée */ }');
+
+    const result = await RegistryInstall.run(['--server', url, '--no-prompt']);
+
+    expect(result.skipped).to.deep.equal(['card@1.0.0']);
+    expect(result.replaced).to.deep.equal(['Helper']);
+    expect(fs.readFileSync(path.join(targetDir, 'classes/Helper/Helper.cls'), 'utf8')).to.equal(
+      'public class Helper {}'
+    );
+  });
+
+  it('installs missing items', async () => {
+    const result = await RegistryInstall.run(['--server', url, '--no-prompt']);
+    expect(result.installed).to.deep.equal(['Helper', 'card']);
+    expect(result.replaced).to.deep.equal([]);
+  });
+});
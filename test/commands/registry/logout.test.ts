@@ -0,0 +1,95 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryLogout from '../../../src/commands/registry/logout.js';
+import { AUTH_CONFIG_FILE_PATH, DEFAULT_PROFILE, ENV_VARS } from '../../../src/utils/constants.js';
+import { clearProfileToken, readRegistryConfig } from '../../../src/utils/profiles.js';
+import { useTemporaryAuthFiles } from '../../helpers/auth.js';
+
+describe('registry logout', () => {
+  const sandbox = sinon.createSandbox();
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it('does nothing when no token is stored for the server', async () => {
+    const result = await RegistryLogout.run(['--server', 'https://unknown.example.com']);
+    expect(result).to.deep.equal({
+      profile: undefined,
+      server: 'https://unknown.example.com',
+      removed: false,
+      revoked: false,
+    });
+  });
+
+  describe('--revoke', () => {
+    let server: http.Server;
+    let url: string;
+    let requests: string[];
+
+    useTemporaryAuthFiles();
+
+    before(async () => {
+      server = http.createServer((req, res) => {
+        requests.push(`${req.method ?? ''} ${req.url ?? ''} ${req.headers.authorization ?? ''}`);
+        res.setHeader('Content-Type', 'application/json');
+        res.writeHead(401);
+        res.end(JSON.stringify({ code: 'token_expired', error: 'Token expiré' }));
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+      server.close();
+    });
+
+    beforeEach(() => {
+      requests = [];
+      const profiles = { [DEFAULT_PROFILE]: { url, token: 'expired', refreshToken: 'refresh-1' } };
+      fs.writeFileSync(AUTH_CONFIG_FILE_PATH, JSON.stringify({ current: DEFAULT_PROFILE, profiles }), { mode: 0o600 });
+    });
+
+    it('treats a rejected token as already revoked, without renewing it', async () => {
+      const result = await RegistryLogout.run(['--server', url, '--revoke']);
+
+      expect(result).to.deep.equal({ profile: DEFAULT_PROFILE, server: url, removed: true, revoked: true });
+      expect(requests).to.deep.equal(['POST /auth/logout Bearer expired']);
+      expect((await readRegistryConfig()).profiles[DEFAULT_PROFILE]).to.deep.equal({ url });
+    });
+
+    describe('with REGISTRY_TOKEN', () => {
+      beforeEach(() => {
+        process.env[ENV_VARS.TOKEN] = 'ci-token';
+      });
+
+      afterEach(() => {
+        delete process.env[ENV_VARS.TOKEN];
+      });
+
+      it('clears the stored token without revoking the environment token', async () => {
+        const result = await RegistryLogout.run(['--server', url, '--revoke']);
+
+        expect(result).to.deep.equal({ profile: DEFAULT_PROFILE, server: url, removed: true, revoked: false });
+        expect(requests).to.deep.equal([]);
+        expect((await readRegistryConfig()).profiles[DEFAULT_PROFILE]).to.deep.equal({ url });
+      });
+
+      it('reports that nothing was removed when no token is stored', async () => {
+        await clearProfileToken(DEFAULT_PROFILE);
+        const result = await RegistryLogout.run(['--server', url, '--revoke']);
+
+        expect(result).to.include({ removed: false, revoked: false });
+        expect(requests).to.deep.equal([]);
+      });
+    });
+  });
+});
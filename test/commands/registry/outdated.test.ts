@@ -0,0 +1,107 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryOutdated from '../../../src/commands/registry/outdated.js';
+import { getOutdatedItems } from '../../../src/utils/manifest.js';
+import { ENV_VARS, FILENAMES } from '../../../src/utils/constants.js';
+import { compareVersions, getLatestVersion } from '../../../src/utils/versions.js';
+import { Registry } from '../../../src/utils/types.js';
+import { publishedVersion } from '../../helpers/catalog.js';
+
+describe('registry outdated', () => {
+  const catalog: Registry = {
+    component: [
+      { name: 'card', versions: [publishedVersion('1.10.0'), publishedVersion('1.2.0'), publishedVersion('1.9.1')] },
+    ],
+    class: [
+      { name: 'Helper', versions: [publishedVersion('1.0.0'), publishedVersion('1.1.0')] },
+      { name: 'Formatter', versions: [publishedVersion('2.0.0')] },
+    ],
+    aura: [],
+    trigger: [],
+    label: [{ name: 'Greeting', versions: [publishedVersion('1.0.0'), publishedVersion('1.1.0')] }],
+    permission: [],
+  };
+
+  it('compares versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.1')).to.be.greaterThan(0);
+    expect(compareVersions('1.2.0', '1.2.0')).to.equal(0);
+    expect(getLatestVersion(catalog.component[0])?.version).to.equal('1.10.0');
+  });
+
+  it('reports current, wanted and latest versions of outdated items', () => {
+    const items = getOutdatedItems(
+      catalog,
+      { component: { card: '1.2.0' }, class: { Formatter: '2.0.0' }, aura: {}, trigger: {}, label: {}, permission: {} },
+      {
+        lockfileVersion: 1,
+        items: {
+          'component:card': {
+            type: 'component',
+            name: 'card',
+            version: '1.2.0',
+            hash: '',
+            dependencies: ['class:Helper'],
+          },
+          'class:Helper': { type: 'class', name: 'Helper', version: '1.0.0', hash: '', dependencies: [] },
+          'class:Formatter': { type: 'class', name: 'Formatter', version: '2.0.0', hash: '', dependencies: [] },
+        },
+      }
+    );
+    expect(items).to.deep.equal([
+      { type: 'class', name: 'Helper', current: '1.0.0', wanted: '1.0.0', latest: '1.1.0', direct: false },
+      { type: 'component', name: 'card', current: '1.2.0', wanted: '1.2.0', latest: '1.10.0', direct: true },
+    ]);
+  });
+
+  describe('command', () => {
+    const sandbox = sinon.createSandbox();
+    let server: http.Server;
+    let url: string;
+    let projectRoot: string;
+
+    before(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/catalog') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(catalog));
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+      server.close();
+    });
+
+    beforeEach(() => {
+      stubSfCommandUx(sandbox);
+      process.env[ENV_VARS.TOKEN] = 'ci-token';
+      projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-outdated-'));
+      fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+      sandbox.stub(process, 'cwd').returns(projectRoot);
+    });
+
+    afterEach(() => {
+      sandbox.restore();
+      delete process.env[ENV_VARS.TOKEN];
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('checks every item type of registry.json when there is no lockfile', async () => {
+      fs.writeFileSync(path.join(projectRoot, FILENAMES.MANIFEST), JSON.stringify({ label: { Greeting: '1.0.0' } }));
+
+      const { items } = await RegistryOutdated.run(['--server', url, '--no-prompt']);
+      expect(items.map((item) => `${item.type}:${item.name}@${item.latest}`)).to.deep.equal(['label:Greeting@1.1.0']);
+    });
+  });
+});
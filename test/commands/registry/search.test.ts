@@ -0,0 +1,130 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistrySearch from '../../../src/commands/registry/search.js';
+import { filterNames, fuzzyScore, searchCatalog } from '../../../src/utils/search.js';
+import { ENV_VARS } from '../../../src/utils/constants.js';
+import { Registry } from '../../../src/utils/types.js';
+import { publishedVersion } from '../../helpers/catalog.js';
+
+describe('registry search', () => {
+  const catalog: Registry = {
+    component: [
+      {
+        name: 'myButton',
+        versions: [
+          publishedVersion('1.0.0', [], { description: 'Ancien bouton' }),
+          publishedVersion('1.1.0', [{ name: 'MyUtil', type: 'class', version: '^1.0.0' }], {
+            description: 'Bouton personnalisé',
+            staticresources: ['icons'],
+          }),
+        ],
+      },
+      { name: 'buttonGroup', versions: [publishedVersion('2.0.0', [], { description: 'Groupe de boutons' })] },
+      {
+        name: 'dateCard',
+        versions: [
+          publishedVersion('1.0.0', [], { description: 'Affiche une date formatée', staticresources: ['chartjs'] }),
+        ],
+      },
+    ],
+    class: [
+      { name: 'MyUtil', versions: [publishedVersion('1.0.0', [], { description: 'Utilitaires divers' })] },
+      { name: 'DateFormatter', versions: [publishedVersion('1.0.0', [], { description: 'Formatage des dates' })] },
+    ],
+    aura: [],
+    trigger: [],
+    label: [],
+    permission: [],
+  };
+
+  const names = (query: string, filters = {}) => searchCatalog(catalog, query, filters).map((r) => r.name);
+
+  it('ranks exact, prefix, substring then fuzzy name matches', () => {
+    expect(fuzzyScore('mybutton', 'myButton')).to.equal(100);
+    expect(fuzzyScore('mbtn', 'myButton')).to.be.greaterThan(0);
+    expect(fuzzyScore('xyz', 'myButton')).to.equal(undefined);
+    expect(names('button')).to.deep.equal(['buttonGroup', 'myButton']);
+    expect(names('mbtn')).to.deep.equal(['myButton']);
+  });
+
+  it('finds word starts in names with accents, whatever their Unicode form', () => {
+    const expected = fuzzyScore('dc', 'DetailCommande');
+    expect(fuzzyScore('dc', 'DétailCommande'.normalize('NFD'))).to.equal(expected);
+    expect(fuzzyScore('dc', 'DétailCommande'.normalize('NFC'))).to.equal(expected);
+  });
+
+  it('matches description words, ignoring accents, and requires every word', () => {
+    expect(names('formatee')).to.deep.equal(['dateCard']);
+    expect(names('date format')).to.deep.equal(['DateFormatter', 'dateCard']);
+    expect(names('date utilitaires')).to.deep.equal([]);
+  });
+
+  it('filters by type, static resources and direct dependency', () => {
+    expect(names('date', { type: 'class' })).to.deep.equal(['DateFormatter']);
+    expect(names('', { hasStaticResources: true })).to.deep.equal(['dateCard', 'myButton']);
+    expect(names('', { dependsOn: 'MyUtil' })).to.deep.equal(['myButton']);
+  });
+
+  it('filters the names of interactive pickers as the user types', () => {
+    const all = ['buttonGroup', 'dateCard', 'myButton'];
+    expect(filterNames(undefined, all)).to.deep.equal(all);
+    expect(filterNames('  ', all)).to.deep.equal(all);
+    expect(filterNames('btn', all)).to.deep.equal(['buttonGroup', 'myButton']);
+    expect(filterNames('card', all)).to.deep.equal(['dateCard']);
+  });
+
+  describe('command', () => {
+    const sandbox = sinon.createSandbox();
+    let server: http.Server;
+    let url: string;
+
+    before(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/catalog') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(catalog));
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+      server.close();
+    });
+
+    beforeEach(() => {
+      stubSfCommandUx(sandbox);
+      process.env[ENV_VARS.TOKEN] = 'ci-token';
+    });
+
+    afterEach(() => {
+      sandbox.restore();
+      delete process.env[ENV_VARS.TOKEN];
+    });
+
+    it('returns ranked results for the latest versions', async () => {
+      const { results } = await RegistrySearch.run(['button', '--server', url, '--no-prompt']);
+      expect(results.map((r) => `${r.name}@${r.version}`)).to.deep.equal(['buttonGroup@2.0.0', 'myButton@1.1.0']);
+      expect(results[1]).to.include({ type: 'component', description: 'Bouton personnalisé' });
+    });
+
+    it('combines filters without a query', async () => {
+      const { results } = await RegistrySearch.run([
+        '--has-static-resources',
+        '--depends-on',
+        'MyUtil',
+        '--server',
+        url,
+        '--no-prompt',
+      ]);
+      expect(results.map((r) => r.name)).to.deep.equal(['myButton']);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import archiver from 'archiver';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryUpdate from '../../../src/commands/registry/update.js';
+import { readLockfile, readManifest } from '../../../src/utils/manifest.js';
+import { ENV_VARS, FILENAMES } from '../../../src/utils/constants.js';
+
+async function zipOf(files: Record<string, string>): Promise<Buffer> {
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+  for (const [name, content] of Object.entries(files)) archive.append(content, { name });
+  await archive.finalize();
+  return Buffer.concat(chunks);
+}
+
+describe('registry update', () => {
+  const sandbox = sinon.createSandbox();
+  let server: http.Server;
+  let url: string;
+  let projectRoot: string;
+
+  const catalog = {
+    component: [
+      {
+        name: 'card',
+        versions: [
+          {
+            version: '1.0.0',
+            description: 'Première version',
+            hash: 'h1',
+            staticresources: [],
+            registryDependencies: [],
+          },
+          {
+            version: '1.1.0',
+            description: 'Ajout du mode sombre',
+            hash: 'h2',
+            staticresources: [],
+            registryDependencies: [],
+          },
+        ],
+      },
+    ],
+    class: [],
+    trigger: [
+      {
+        name: 'AccountTrigger',
+        versions: [
+          {
+            version: '1.0.0',
+            description: 'Première version',
+            hash: 'h3',
+            staticresources: [],
+            registryDependencies: [],
+          },
+        ],
+      },
+    ],
+  };
+
+  before(async () => {
+    const zip = await zipOf({ 'card/card.js': '// v1.1.0' });
+    catalog.component[0].versions[1].hash = `sha256-${createHash('sha256').update(zip).digest('base64')}`;
+    server = http.createServer((req, res) => {
+      if (req.url === '/catalog') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(catalog));
+      } else if (req.url === '/download/component/card/1.1.0') {
+        res.end(zip);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+    process.env[ENV_VARS.TOKEN] = 'ci-token';
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-update-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    fs.writeFileSync(
+      path.join(projectRoot, FILENAMES.MANIFEST),
+      JSON.stringify({ component: { card: '1.0.0' }, class: {}, trigger: { AccountTrigger: '1.0.0' } })
+    );
+    fs.writeFileSync(
+      path.join(projectRoot, FILENAMES.LOCK),
+      JSON.stringify({
+        lockfileVersion: 1,
+        items: {
+          'component:card': { type: 'component', name: 'card', version: '1.0.0', hash: 'h1', dependencies: [] },
+          'trigger:AccountTrigger': {
+            type: 'trigger',
+            name: 'AccountTrigger',
+            version: '1.0.0',
+            hash: 'h3',
+            dependencies: [],
+          },
+        },
+      })
+    );
+    const cardDir = path.join(projectRoot, 'force-app/main/default/lwc/card');
+    fs.mkdirSync(cardDir, { recursive: true });
+    fs.writeFileSync(path.join(cardDir, 'card.js'), '// v1.0.0');
+    fs.mkdirSync(path.join(projectRoot, 'force-app/main/default/triggers/AccountTrigger'), { recursive: true });
+    sandbox.stub(process, 'cwd').returns(projectRoot);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    delete process.env[ENV_VARS.TOKEN];
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('replaces the installed folder and records the new version', async () => {
+    const result = await RegistryUpdate.run(['--all', '--no-prompt', '--server', url]);
+
+    expect(result.updated).to.deep.equal([
+      {
+        type: 'component',
+        name: 'card',
+        from: '1.0.0',
+        to: '1.1.0',
+        changes: [{ version: '1.1.0', description: 'Ajout du mode sombre' }],
+      },
+    ]);
+    const cardJs = path.join(projectRoot, 'force-app/main/default/lwc/card/card.js');
+    expect(fs.readFileSync(cardJs, 'utf-8')).to.equal('// v1.1.0');
+    expect(fs.readdirSync(path.dirname(path.dirname(cardJs)))).to.deep.equal(['card']);
+    expect((await readManifest(projectRoot)).component).to.deep.equal({ card: '1.1.0' });
+    expect((await readLockfile(projectRoot))?.items['component:card'].hash).to.equal(
+      catalog.component[0].versions[1].hash
+    );
+  });
+
+  it('accepts --name for every item type listed in registry.json', async () => {
+    const result = await RegistryUpdate.run(['--name', 'AccountTrigger', '--no-prompt', '--server', url]);
+    expect(result.updated).to.deep.equal([]);
+
+    try {
+      await RegistryUpdate.run(['--name', 'AccountTrigger', '--type', 'class', '--no-prompt', '--server', url]);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include("n'est pas listé");
+    }
+  });
+
+  it('requires --name or --all without a prompt', async () => {
+    try {
+      await RegistryUpdate.run(['--no-prompt', '--server', url]);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('--all');
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import RegistryWhoami from '../../../src/commands/registry/whoami.js';
+import { decodeJwtPayload } from '../../../src/utils/functions.js';
+import { ENV_VARS } from '../../../src/utils/constants.js';
+
+function fakeJwt(payload: object): string {
+  return ['header', Buffer.from(JSON.stringify(payload)).toString('base64url'), 'signature'].join('.');
+}
+
+describe('registry whoami', () => {
+  const sandbox = sinon.createSandbox();
+
+  beforeEach(() => {
+    stubSfCommandUx(sandbox);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    delete process.env[ENV_VARS.TOKEN];
+  });
+
+  it('decodes the standard claims of the stored token', () => {
+    const payload = decodeJwtPayload(fakeJwt({ sub: 'jdoe', iat: 1_700_000_000, exp: 1_700_003_600 }));
+    expect(payload.sub).to.equal('jdoe');
+    expect(payload.exp).to.equal(1_700_003_600);
+  });
+
+  it('rejects a malformed token', () => {
+    expect(() => decodeJwtPayload('not-a-jwt')).to.throw('mal formé');
+  });
+
+  it('prefers the token from the environment', async () => {
+    process.env[ENV_VARS.TOKEN] = fakeJwt({ sub: 'ci-bot' });
+    const result = await RegistryWhoami.run(['--server', 'https://unknown.example.com']);
+    expect(result.subject).to.equal('ci-bot');
+    expect(result.tokenSource).to.equal('env');
+    expect(result.expired).to.equal(false);
+  });
+
+  it('fails when no token is stored for the server', async () => {
+    try {
+      await RegistryWhoami.run(['--server', 'https://unknown.example.com']);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('pas authentifié');
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AUTH_CONFIG_FILE_PATH, AUTH_KEY_FILE_PATH } from '../../src/utils/constants.js';
+import { TEST_HOME } from './home.js';
+
+const AUTH_FILES = [AUTH_CONFIG_FILE_PATH, AUTH_KEY_FILE_PATH];
+
+/**
+ * Chaque test part sans token stocké ni clé. Les fichiers sont ceux du dossier personnel temporaire
+ * des tests (`home.ts`) : un chemin en dehors de ce dossier fait échouer le test au lieu d'être supprimé.
+ */
+export function useTemporaryAuthFiles(): void {
+  beforeEach(removeAuthFiles);
+  after(removeAuthFiles);
+}
+
+function removeAuthFiles(): void {
+  for (const file of AUTH_FILES) {
+    if (path.dirname(file) !== TEST_HOME) {
+      throw new Error(`${file} n'est pas dans le dossier personnel des tests (${TEST_HOME}).`);
+    }
+    fs.rmSync(file, { force: true });
+  }
+}
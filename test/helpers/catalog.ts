@@ -0,0 +1,13 @@
+import { ComponentOrClassVersion } from '../../src/utils/types.js';
+
+/**
+ * Version publiée d'un élément du catalogue, décrite `v<version>`, sans empreinte ni ressource
+ * statique sauf si `overrides` les précise.
+ */
+export function publishedVersion(
+  version: string,
+  registryDependencies: ComponentOrClassVersion['registryDependencies'] = [],
+  overrides: Partial<ComponentOrClassVersion> = {}
+): ComponentOrClassVersion {
+  return { version, description: `v${version}`, hash: '', staticresources: [], registryDependencies, ...overrides };
+}
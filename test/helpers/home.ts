@@ -0,0 +1,15 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * Chargé par `.mocharc.json` avant les tests : le dossier personnel pointe vers un dossier temporaire,
+ * pour que les chemins calculés depuis `os.homedir()` (fichier d'authentification, clé) ne désignent
+ * jamais les fichiers réels du développeur.
+ */
+export const TEST_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-home-'));
+
+process.env.HOME = TEST_HOME;
+process.env.USERPROFILE = TEST_HOME;
+
+process.on('exit', () => fs.rmSync(TEST_HOME, { recursive: true, force: true }));
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { findApexReferences, findApexStaticResources, isApexTestClass, tokenizeApex } from '../../src/utils/apex.js';
+
+describe('Apex dependency extraction', () => {
+  const classes = ['MyUtil', 'Logger', 'AccountService', 'Helper', 'OrderHandler', 'Cache'];
+
+  it('ignores comments, strings and numbers', () => {
+    const tokens = tokenizeApex(
+      [
+        '// Logger.log() is not used any more',
+        "/* MyUtil.run('x'); */",
+        "String message = 'Call Helper.run() \\' AccountService';",
+        'Decimal rate = 1.5;',
+      ].join('\n')
+    );
+    expect(tokens).to.deep.equal(['String', 'message', 'Decimal', 'rate']);
+  });
+
+  it('matches references case-insensitively and returns the declared class name', () => {
+    const code = [
+      'public with sharing class Invoice {',
+      '  private myutil util = new MYUTIL();',
+      '  public void run() { logger.log(util); }',
+      '}',
+    ].join('\n');
+    expect(findApexReferences(code, classes, 'Invoice')).to.deep.equal(['MyUtil', 'Logger']);
+  });
+
+  it('does not treat members, annotations or inner classes as dependencies', () => {
+    const code = [
+      '@isTest',
+      'private class InvoiceTest {',
+      '  private class Helper implements Cache.CacheBuilder {}',
+      '  @isTest static void itWorks() {',
+      '    Invoice invoice = new Invoice();',
+      '    invoice.logger = null;',
+      '    new Helper();',
+      '    System.assert(AccountService.isValid());',
+      '  }',
+      '}',
+    ].join('\n');
+    expect(findApexReferences(code, classes, 'InvoiceTest')).to.deep.equal(['AccountService', 'Cache']);
+  });
+
+  it('does not report its own name', () => {
+    const code = 'public class MyUtil { public static MyUtil instance = new myUtil(); }';
+    expect(findApexReferences(code, classes, 'MyUtil')).to.deep.equal([]);
+  });
+
+  it('scans trigger bodies but not their header', () => {
+    const code = [
+      'trigger OrderTrigger on Order__c (before insert, after update) {',
+      '  // Cache.clear();',
+      '  new OrderHandler(Trigger.new).run();',
+      '}',
+    ].join('\n');
+    expect(findApexReferences(code, [...classes, 'Order__c'], 'OrderTrigger')).to.deep.equal(['OrderHandler']);
+  });
+
+  it('finds static resources used through PageReference and StaticResource queries', () => {
+    const code = [
+      "PageReference logo = PageReference.forResource('brandLogo', 'img/logo.png');",
+      "PageReference page = new PageReference('/resource/1700000000000/chartjs/Chart.js');",
+      "// PageReference.forResource('oldLogo');",
+      "StaticResource theme = [SELECT Body FROM StaticResource WHERE Name = 'theme' LIMIT 1];",
+      "List<StaticResource> icons = [select Body from staticresource where name in ('iconsLight', 'iconsDark')];",
+    ].join('\n');
+    expect(findApexStaticResources(code)).to.have.members(['brandLogo', 'chartjs', 'theme', 'iconsLight', 'iconsDark']);
+  });
+
+  it('recognises test classes by their @isTest annotation', () => {
+    expect(isApexTestClass('@isTest\nprivate class FooTest {}')).to.equal(true);
+    expect(isApexTestClass('@IsTest(SeeAllData=true) public class FooTest {}')).to.equal(true);
+    expect(isApexTestClass('// @isTest\npublic class Foo { @isTest static void run() {} }')).to.equal(false);
+  });
+});
@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import archiver from 'archiver';
+import { expect } from 'chai';
+import { extractZip } from '../../src/utils/archive.js';
+import { ARCHIVE_LIMITS } from '../../src/utils/constants.js';
+import { UnsafeArchiveError } from '../../src/utils/errors.js';
+
+describe('archive extraction', () => {
+  let workDir: string;
+  let zipPath: string;
+  let extractPath: string;
+  const limits = { ...ARCHIVE_LIMITS };
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-archive-'));
+    zipPath = path.join(workDir, 'item.zip');
+    extractPath = path.join(workDir, 'out');
+  });
+
+  afterEach(() => {
+    Object.assign(ARCHIVE_LIMITS, limits);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  async function writeZip(build: (archive: archiver.Archiver) => void): Promise<void> {
+    const archive = archiver('zip');
+    const output = fs.createWriteStream(zipPath);
+    const closed = new Promise((resolve) => output.on('close', resolve));
+    archive.pipe(output);
+    build(archive);
+    await archive.finalize();
+    await closed;
+  }
+
+  async function expectRefused(reason: string): Promise<void> {
+    try {
+      await extractZip(zipPath, extractPath);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).to.be.instanceOf(UnsafeArchiveError);
+      expect((error as Error).message).to.include(reason);
+    }
+    // Rien n'est écrit quand une entrée est refusée
+    expect(fs.existsSync(extractPath)).to.equal(false);
+  }
+
+  it('extracts a valid archive', async () => {
+    await writeZip((archive) => {
+      archive.append('// card', { name: 'card/card.js' });
+      archive.append('<xml/>', { name: 'staticresources/logo.resource-meta.xml' });
+    });
+    await extractZip(zipPath, extractPath);
+    expect(fs.readFileSync(path.join(extractPath, 'card', 'card.js'), 'utf8')).to.equal('// card');
+    expect(fs.existsSync(path.join(extractPath, 'staticresources', 'logo.resource-meta.xml'))).to.equal(true);
+  });
+
+  it('refuses entries escaping the extraction folder', async () => {
+    await writeZip((archive) => {
+      archive.append('// card', { name: 'card/card.js' });
+      archive.append('pwned', { name: 'card/../../evil.js' });
+    });
+    await expectRefused("card/../../evil.js : chemin sortant du dossier d'extraction");
+  });
+
+  it('refuses symbolic links', async () => {
+    await writeZip((archive) => {
+      archive.append('// card', { name: 'card/card.js' });
+      archive.symlink('card/link.js', '/etc/passwd');
+    });
+    await expectRefused('card/link.js : lien symbolique');
+  });
+
+  it('refuses forbidden extensions', async () => {
+    await writeZip((archive) => {
+      archive.append('// card', { name: 'card/card.js' });
+      archive.append('rm -rf ~', { name: 'card/install.SH' });
+    });
+    await expectRefused('card/install.SH : extension interdite (.sh)');
+  });
+
+  it('caps the file count and the uncompressed size', async () => {
+    ARCHIVE_LIMITS.MAX_FILES = 2;
+    ARCHIVE_LIMITS.MAX_UNCOMPRESSED_SIZE = 1024;
+    await writeZip((archive) => {
+      archive.append('x'.repeat(1024), { name: 'card/a.js' });
+      archive.append('// b', { name: 'card/b.js' });
+      archive.append('// c', { name: 'card/c.js' });
+    });
+    await expectRefused('trop de fichiers (3, maximum 2)');
+    await expectRefused('taille décompressée trop grande');
+  });
+});
@@ -0,0 +1,66 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import { diffPaths, getBackupDirectory, getBackupPath, hasChanges } from '../../src/utils/conflicts.js';
+
+describe('conflict diff summary', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-conflicts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function writeTree(root: string, files: Record<string, string>): string {
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+      fs.writeFileSync(path.join(root, name), content);
+    }
+    return root;
+  }
+
+  it('lists added, removed and modified files', async () => {
+    const incoming = writeTree(path.join(workDir, 'incoming'), {
+      'card.js': '// v2',
+      'card.html': '<template></template>',
+      '__tests__/card.test.js': '// new',
+    });
+    const existing = writeTree(path.join(workDir, 'existing'), {
+      'card.js': '// v1',
+      'card.html': '<template></template>',
+      'card.css': '',
+    });
+
+    const diff = await diffPaths(incoming, existing);
+    expect(diff).to.deep.equal({
+      added: ['__tests__/card.test.js'],
+      removed: ['card.css'],
+      modified: ['card.js'],
+      unchanged: 1,
+    });
+    expect(hasChanges(diff)).to.equal(true);
+  });
+
+  it('compares single files', async () => {
+    const incoming = writeTree(path.join(workDir, 'incoming'), { 'logo.resource': 'logo' });
+    const existing = writeTree(path.join(workDir, 'existing'), { 'logo.resource': 'logo' });
+    const diff = await diffPaths(path.join(incoming, 'logo.resource'), path.join(existing, 'logo.resource'));
+    expect(hasChanges(diff)).to.equal(false);
+  });
+
+  it('stores backups outside the package directories and never reuses a backup directory', async () => {
+    const date = new Date(2026, 9, 18, 9, 5, 3);
+    const backups = path.join(workDir, '.registry-backups');
+    fs.mkdirSync(path.join(backups, '20261018-090503'), { recursive: true });
+
+    const directory = await getBackupDirectory(workDir, date);
+    expect(directory).to.equal(path.join(backups, '20261018-090503-1'));
+    expect(getBackupPath(directory, path.join(workDir, 'force-app/main/default/lwc/card'))).to.equal(
+      path.join(directory, 'lwc', 'card')
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { expect } from 'chai';
+import { authedFetch } from '../../src/utils/functions.js';
+import { AuthError } from '../../src/utils/errors.js';
+import { ResolvedRegistry } from '../../src/utils/types.js';
+
+describe('authedFetch', () => {
+  let server: http.Server;
+  let url: string;
+  let requests: string[];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method ?? ''} ${req.url ?? ''} ${req.headers.authorization ?? ''}`);
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url === '/auth/refresh') {
+        res.end(JSON.stringify({ token: 'fresh', refreshToken: 'refresh-2' }));
+      } else if (req.headers.authorization === 'Bearer fresh') {
+        res.end(JSON.stringify({ ok: true }));
+      } else {
+        res.writeHead(401);
+        res.end(JSON.stringify({ code: 'token_expired', error: 'Token expiré' }));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('refreshes an expired token and replays the request', async () => {
+    const registry: ResolvedRegistry = {
+      url,
+      source: 'flag',
+      interactive: false,
+      token: 'stale',
+      refreshToken: 'refresh-1',
+    };
+    const res = await authedFetch(registry, '/catalog');
+    expect(res.status).to.equal(200);
+    expect(registry.token).to.equal('fresh');
+    expect(registry.refreshToken).to.equal('refresh-2');
+    expect(requests).to.deep.equal(['GET /catalog Bearer stale', 'POST /auth/refresh ', 'GET /catalog Bearer fresh']);
+  });
+
+  it('fails with token_expired when the token cannot be renewed', async () => {
+    const registry: ResolvedRegistry = { url, source: 'flag', interactive: false, token: 'stale' };
+    try {
+      await authedFetch(registry, '/catalog');
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).to.be.instanceOf(AuthError);
+      expect((error as AuthError).code).to.equal('token_expired');
+    }
+  });
+
+  it('does not send a request with a known-expired token that cannot be renewed', async () => {
+    const expired = ['{"alg":"none"}', JSON.stringify({ exp: 1 })]
+      .map((part) => Buffer.from(part).toString('base64url'))
+      .concat('')
+      .join('.');
+    const registry: ResolvedRegistry = { url, source: 'flag', interactive: false, token: expired };
+    try {
+      await authedFetch(registry, '/catalog', { method: 'POST', body: '{}' });
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AuthError).code).to.equal('token_expired');
+    }
+    expect(requests).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,53 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { expect } from 'chai';
+import { parseIntegrity, verifyFileIntegrity } from '../../src/utils/integrity.js';
+import { IntegrityError } from '../../src/utils/errors.js';
+
+describe('archive integrity', () => {
+  let filePath: string;
+
+  beforeEach(() => {
+    filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-integrity-')), 'item.zip');
+    fs.writeFileSync(filePath, 'contenu de l’archive');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  const digest = (algorithm: string, encoding: 'base64' | 'hex'): string =>
+    createHash(algorithm).update(fs.readFileSync(filePath)).digest(encoding);
+
+  it('reads the algorithm declared in the hash', () => {
+    expect(parseIntegrity('SHA512-abc=')).to.deep.equal({ algorithm: 'sha512', digest: 'abc=' });
+  });
+
+  it('accepts base64 and hexadecimal digests', async () => {
+    await verifyFileIntegrity(filePath, `sha256-${digest('sha256', 'base64')}`);
+    await verifyFileIntegrity(filePath, `sha384-${digest('sha384', 'hex')}`);
+  });
+
+  it('fails on a mismatch', async () => {
+    try {
+      await verifyFileIntegrity(filePath, `sha256-${createHash('sha256').update('autre').digest('base64')}`);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).to.be.instanceOf(IntegrityError);
+    }
+  });
+
+  it('refuses hashes without a supported algorithm', async () => {
+    for (const hash of ['', 'deadbeef', 'md5-deadbeef']) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await verifyFileIntegrity(filePath, hash);
+        expect.fail(`should have refused "${hash}"`);
+      } catch (error) {
+        expect(error).to.be.instanceOf(IntegrityError);
+      }
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import { analyzeLwcBundle } from '../../src/utils/lwc.js';
+
+describe('LWC bundle analysis', () => {
+  let bundleDir: string;
+
+  beforeEach(() => {
+    bundleDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-lwc-')), 'card');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(bundleDir), { recursive: true, force: true });
+  });
+
+  function writeBundle(files: Record<string, string>): void {
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(bundleDir, name)), { recursive: true });
+      fs.writeFileSync(path.join(bundleDir, name), content);
+    }
+  }
+
+  it('detects every import form across the files of the bundle', async () => {
+    writeBundle({
+      'card.js': [
+        "import { LightningElement } from 'lwc';",
+        "import { formatDate, formatAmount } from 'c/utils';",
+        'import {',
+        '  getRecords,',
+        "} from '@salesforce/apex/CardController.getRecords';",
+        "import logo from '@salesforce/resourceUrl/brandLogo';",
+        "import cardTitle from '@salesforce/label/c.Card_Title';",
+        "import canEdit from '@salesforce/customPermission/Edit_Cards';",
+        "export { toast } from 'c/toaster';",
+        "// import ignored from 'c/commented';",
+        'const label = "import fake from \'c/inString\'";',
+        'export default class Card extends LightningElement {',
+        '  async renderedCallback() {',
+        "    const { default: Modal } = await import('c/modal');",
+        '  }',
+        '}',
+      ].join('\n'),
+      'helpers/format.js': "import getTotals from '@salesforce/apex/ns.TotalsService.getTotals';",
+      'card.html': [
+        '<template>',
+        '  <!-- <c-commented></c-commented> -->',
+        '  <template lwc:if={ready}>',
+        '    <c-status-badge',
+        '      status={status}',
+        '    ></c-status-badge>',
+        '  </template>',
+        '  <lightning-card></lightning-card>',
+        '</template>',
+      ].join('\n'),
+      'card.css': "/* @import 'c/oldTheme'; */\n@import 'c/sharedStyles';",
+      '__tests__/card.test.js': "import mock from 'c/testOnly';",
+    });
+
+    expect(await analyzeLwcBundle(bundleDir)).to.deep.equal({
+      components: ['sharedStyles', 'statusBadge', 'utils', 'toaster', 'modal'],
+      apexClasses: ['CardController', 'TotalsService'],
+      staticResources: ['brandLogo'],
+      labels: ['Card_Title'],
+      customPermissions: ['Edit_Cards'],
+    });
+  });
+
+  it('parses TypeScript components', async () => {
+    writeBundle({
+      'card.ts': [
+        "import type { Item } from 'c/types';",
+        "import { api, LightningElement } from 'lwc';",
+        "import getItems from '@salesforce/apex/ItemController.getItems';",
+        'export default class Card extends LightningElement {',
+        '  @api items: Item[] = [];',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(await analyzeLwcBundle(bundleDir)).to.deep.equal({
+      components: ['types'],
+      apexClasses: ['ItemController'],
+      staticResources: [],
+      labels: [],
+      customPermissions: [],
+    });
+  });
+
+  it('detects static resources referenced by template and stylesheet URLs', async () => {
+    writeBundle({
+      'card.js': "import { LightningElement } from 'lwc';",
+      'card.html': '<template><img src="/resource/brandLogo/logo.png" alt=""></template>',
+      'card.css': [
+        "/* background: url('/resource/oldTheme/bg.png'); */",
+        ":host { background: url('/resource/1700000000000/theme/bg.png'); }",
+        '.icon { background-image: url(/resource/icons/star.svg); }',
+      ].join('\n'),
+    });
+
+    expect((await analyzeLwcBundle(bundleDir)).staticResources).to.deep.equal(['theme', 'icons', 'brandLogo']);
+  });
+});
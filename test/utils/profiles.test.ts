@@ -0,0 +1,75 @@
+import fs from 'node:fs';
+import { expect } from 'chai';
+import { readRegistryConfig, writeRegistryConfig } from '../../src/utils/profiles.js';
+import { AUTH_CONFIG_FILE_PATH, DEFAULT_PROFILE, SERVER_URL } from '../../src/utils/constants.js';
+import { useTemporaryAuthFiles } from '../helpers/auth.js';
+
+describe('readRegistryConfig', () => {
+  useTemporaryAuthFiles();
+
+  it('returns the default profile without a config file', async () => {
+    expect(await readRegistryConfig()).to.deep.equal({
+      current: DEFAULT_PROFILE,
+      profiles: { [DEFAULT_PROFILE]: { url: SERVER_URL } },
+    });
+  });
+
+  it('stores tokens encrypted and reads them back', async () => {
+    const config = {
+      current: 'staging',
+      profiles: {
+        staging: { url: 'https://staging.example.com', token: 'access-secret', refreshToken: 'refresh-secret' },
+      },
+    };
+    await writeRegistryConfig(config);
+
+    const stored = fs.readFileSync(AUTH_CONFIG_FILE_PATH, 'utf-8');
+    expect(stored).not.to.include('access-secret');
+    expect(stored).not.to.include('refresh-secret');
+    expect(await readRegistryConfig()).to.deep.equal(config);
+  });
+
+  it('migrates a legacy plaintext { token } file to an encrypted 0600 file', async () => {
+    fs.writeFileSync(AUTH_CONFIG_FILE_PATH, JSON.stringify({ token: 'legacy-token' }));
+    fs.chmodSync(AUTH_CONFIG_FILE_PATH, 0o644);
+
+    const config = await readRegistryConfig();
+
+    expect(config.profiles[DEFAULT_PROFILE]).to.deep.equal({ url: SERVER_URL, token: 'legacy-token' });
+    const stored = JSON.parse(fs.readFileSync(AUTH_CONFIG_FILE_PATH, 'utf-8')) as typeof config;
+    expect(stored.profiles[DEFAULT_PROFILE].token).to.match(/^enc:v1:/);
+    expect(fs.statSync(AUTH_CONFIG_FILE_PATH).mode & 0o777).to.equal(0o600);
+    expect(await readRegistryConfig()).to.deep.equal(config);
+  });
+
+  it('fails on an unreadable file instead of replacing its profiles', async () => {
+    const expectUnreadable = async (content: string): Promise<void> => {
+      fs.writeFileSync(AUTH_CONFIG_FILE_PATH, content, { mode: 0o600 });
+      try {
+        await readRegistryConfig();
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.include(`${AUTH_CONFIG_FILE_PATH} est illisible`);
+      }
+      expect(fs.readFileSync(AUTH_CONFIG_FILE_PATH, 'utf-8')).to.equal(content);
+    };
+
+    await expectUnreadable('{"current": "default", "profiles": {');
+    await expectUnreadable('{"profiles": []}');
+  });
+
+  it('refuses an encrypted file readable by other users', async () => {
+    await writeRegistryConfig({
+      current: DEFAULT_PROFILE,
+      profiles: { [DEFAULT_PROFILE]: { url: SERVER_URL, token: 't' } },
+    });
+    fs.chmodSync(AUTH_CONFIG_FILE_PATH, 0o640);
+
+    try {
+      await readRegistryConfig();
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include(`chmod 600 ${AUTH_CONFIG_FILE_PATH}`);
+    }
+  });
+});
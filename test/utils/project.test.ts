@@ -0,0 +1,96 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import { findMetadataFolders, getDefaultPackageDirectory, readPackageDirectories } from '../../src/utils/project.js';
+import { scanProject } from '../../src/utils/scanner.js';
+
+describe('project package directories', () => {
+  let projectRoot: string;
+
+  const write = (relative: string, content = ''): void => {
+    const file = path.join(projectRoot, relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+  const writeProject = (project: unknown): void => write('sfdx-project.json', JSON.stringify(project));
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-project-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('falls back to force-app/main/default without packageDirectories', async () => {
+    writeProject({});
+    const [dir] = await readPackageDirectories(projectRoot);
+    expect(dir).to.deep.equal({
+      path: 'force-app',
+      fullPath: path.join(projectRoot, 'force-app'),
+      default: true,
+      targetDir: path.join(projectRoot, 'force-app/main/default'),
+    });
+  });
+
+  it('reads every package directory and its target folder', async () => {
+    writeProject({
+      packageDirectories: [{ path: 'core' }, { path: 'packages/ui', default: true }, { path: 'legacy' }],
+    });
+    write('core/main/default/classes/Util/Util.cls');
+    write('packages/ui/lwc/card/card.js');
+
+    const dirs = await readPackageDirectories(projectRoot);
+    expect(dirs.map((dir) => dir.path)).to.deep.equal(['core', 'packages/ui', 'legacy']);
+    expect(getDefaultPackageDirectory(dirs).path).to.equal('packages/ui');
+    // main/default s'il existe, le dossier lui-même s'il est organisé autrement, main/default s'il n'existe pas encore
+    expect(dirs.map((dir) => path.relative(projectRoot, dir.targetDir))).to.deep.equal([
+      path.join('core', 'main', 'default'),
+      path.join('packages', 'ui'),
+      path.join('legacy', 'main', 'default'),
+    ]);
+  });
+
+  it('uses the first package directory when none is marked default', async () => {
+    writeProject({ packageDirectories: [{ path: 'a' }, { path: 'b' }] });
+    expect(getDefaultPackageDirectory(await readPackageDirectories(projectRoot)).path).to.equal('a');
+  });
+
+  it('rejects an invalid sfdx-project.json', async () => {
+    writeProject({ packageDirectories: [] });
+    try {
+      await readPackageDirectories(projectRoot);
+      expect.fail('readPackageDirectories should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('packageDirectories invalide');
+    }
+  });
+
+  it('finds metadata folders at any depth', async () => {
+    write('app/main/default/lwc/card/card.js');
+    write('app/features/orders/classes/Order/Order.cls');
+    write('app/.sfdx/lwc/cache.js');
+
+    const folders = await findMetadataFolders(path.join(projectRoot, 'app'), ['lwc', 'classes']);
+    expect(folders.map((folder) => path.relative(projectRoot, folder))).to.deep.equal([
+      path.join('app', 'features', 'orders', 'classes'),
+      path.join('app', 'main', 'default', 'lwc'),
+    ]);
+  });
+
+  it('scans items across package directories, the first declared winning', async () => {
+    writeProject({ packageDirectories: [{ path: 'core', default: true }, { path: 'ui' }] });
+    write('core/main/default/classes/Util/Util.cls', 'public class Util {}');
+    write('core/main/default/lwc/card/card.js');
+    write('ui/lwc/card/card.js');
+    write('ui/lwc/panel/panel.js', "import card from 'c/card';");
+    write('ui/staticresources/logo.png');
+
+    const index = await scanProject(projectRoot);
+    expect(index.items.component).to.deep.equal(['card', 'panel']);
+    expect(index.items.class).to.deep.equal(['Util']);
+    expect(index.locations.component.card).to.equal(path.join(projectRoot, 'core/main/default/lwc/card'));
+    expect(index.staticResourceDirs).to.deep.equal([path.join(projectRoot, 'ui/staticresources')]);
+  });
+});
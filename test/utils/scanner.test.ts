@@ -0,0 +1,178 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import {
+  analyzeItem,
+  findCoveringTests,
+  getItemFiles,
+  ProjectIndex,
+  readItemDetails,
+  scanProject,
+} from '../../src/utils/scanner.js';
+
+describe('project scanner', () => {
+  let projectRoot: string;
+  let index: ProjectIndex;
+
+  const write = (relative: string, content: string): void => {
+    const file = path.join(projectRoot, 'force-app/main/default', relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  const label = (name: string, value: string, categories?: string): string =>
+    [
+      '    <labels>',
+      ...(categories ? [`        <categories>${categories}</categories>`] : []),
+      `        <fullName>${name}</fullName>`,
+      '        <language>fr</language>',
+      '        <protected>false</protected>',
+      `        <value>${value}</value>`,
+      '    </labels>',
+    ].join('\n');
+
+  beforeEach(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-scanner-'));
+    fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), '{}');
+    write(
+      'lwc/card/card.js',
+      [
+        "import title from '@salesforce/label/c.Card_Title';",
+        "import canEdit from '@salesforce/customPermission/Edit_Cards';",
+      ].join('\n')
+    );
+    write(
+      'aura/cardWrapper/cardWrapper.cmp',
+      [
+        '<aura:component controller="CardController" extends="c:basePanel">',
+        '  <aura:registerEvent name="select" type="c:cardSelected"/>',
+        '  <!-- <c:oldCard/> -->',
+        '  <c:card title="{!$Label.c.Card_Title}"/>',
+        '</aura:component>',
+      ].join('\n')
+    );
+    write(
+      'aura/cardWrapper/cardWrapperController.js',
+      "({ init: function (cmp) { // $Resource.oldLogo\n cmp.set('v.logo', $A.get('$Resource.logo')); } })"
+    );
+    write('aura/basePanel/basePanel.cmp', '<aura:component extensible="true"/>');
+    write('aura/cardSelected/cardSelected.evt', '<aura:event type="COMPONENT"/>');
+    write(
+      'classes/CardController/CardController.cls',
+      'public class CardController { String t = System.Label.card_title; }'
+    );
+    write('classes/OrderHandler/OrderHandler.cls', 'public class OrderHandler { String e = Label.Order_Error; }');
+    write(
+      'triggers/OrderTrigger/OrderTrigger.trigger',
+      'trigger OrderTrigger on Order (before insert) {\n  new orderhandler().run(Trigger.new);\n}'
+    );
+    write('triggers/OrderTrigger/OrderTrigger.trigger-meta.xml', '<ApexTrigger/>');
+    write(
+      'labels/CustomLabels.labels-meta.xml',
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">',
+        label('Card_Title', 'Carte'),
+        label('Order_Error', 'Commande invalide &amp; refusée', 'Commandes,Erreurs'),
+        '</CustomLabels>',
+      ].join('\n')
+    );
+    write(
+      'customPermissions/Edit_Cards.customPermission-meta.xml',
+      '<CustomPermission>\n    <isLicensed>false</isLicensed>\n    <label>Modifier les cartes</label>\n</CustomPermission>'
+    );
+    index = await scanProject(projectRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('indexes every supported metadata type', () => {
+    expect(index.items).to.deep.equal({
+      component: ['card'],
+      class: ['CardController', 'OrderHandler'],
+      aura: ['basePanel', 'cardSelected', 'cardWrapper'],
+      trigger: ['OrderTrigger'],
+      label: ['Card_Title', 'Order_Error'],
+      permission: ['Edit_Cards'],
+    });
+  });
+
+  it('detects labels and custom permissions used by a LWC', async () => {
+    expect((await analyzeItem(index, 'card', 'component')).dependencies).to.deep.equal([
+      { name: 'Card_Title', type: 'label' },
+      { name: 'Edit_Cards', type: 'permission' },
+    ]);
+  });
+
+  it('detects the dependencies of an Aura bundle', async () => {
+    expect(await analyzeItem(index, 'cardWrapper', 'aura')).to.deep.equal({
+      dependencies: [
+        { name: 'basePanel', type: 'aura' },
+        { name: 'cardSelected', type: 'aura' },
+        { name: 'card', type: 'component' },
+        { name: 'CardController', type: 'class' },
+        { name: 'Card_Title', type: 'label' },
+      ],
+      staticResources: ['logo'],
+    });
+  });
+
+  it('pulls the classes of a trigger and the labels of a class', async () => {
+    expect((await analyzeItem(index, 'OrderTrigger', 'trigger')).dependencies).to.deep.equal([
+      { name: 'OrderHandler', type: 'class' },
+    ]);
+    expect((await analyzeItem(index, 'OrderHandler', 'class')).dependencies).to.deep.equal([
+      { name: 'Order_Error', type: 'label' },
+    ]);
+  });
+
+  it('packages a label on its own and custom permissions as their file', async () => {
+    const [labelFile] = await getItemFiles(index, 'label', 'Order_Error');
+    expect(labelFile.name).to.equal('Order_Error/Order_Error.labels-meta.xml');
+    expect('content' in labelFile && labelFile.content).to.equal(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">',
+        label('Order_Error', 'Commande invalide &amp; refusée', 'Commandes,Erreurs'),
+        '</CustomLabels>',
+        '',
+      ].join('\n')
+    );
+    expect((await getItemFiles(index, 'permission', 'Edit_Cards')).map((file) => file.name)).to.deep.equal([
+      'Edit_Cards/Edit_Cards.customPermission-meta.xml',
+    ]);
+    expect((await getItemFiles(index, 'trigger', 'OrderTrigger')).map((file) => file.name)).to.deep.equal([
+      'OrderTrigger/OrderTrigger.trigger',
+      'OrderTrigger/OrderTrigger.trigger-meta.xml',
+    ]);
+  });
+
+  it('reads the properties published with labels and custom permissions', async () => {
+    expect(await readItemDetails(index, 'label', 'Order_Error')).to.deep.equal({
+      value: 'Commande invalide & refusée',
+      categories: 'Commandes,Erreurs',
+    });
+    expect(await readItemDetails(index, 'label', 'Card_Title')).to.deep.equal({ value: 'Carte' });
+    expect(await readItemDetails(index, 'permission', 'Edit_Cards')).to.deep.equal({
+      label: 'Modifier les cartes',
+      licensed: 'false',
+    });
+    expect(await readItemDetails(index, 'class', 'OrderHandler')).to.equal(undefined);
+  });
+
+  it('finds the test classes covering a class', async () => {
+    write('classes/OrderHandlerTest/OrderHandlerTest.cls', '@isTest\nprivate class OrderHandlerTest {}');
+    write(
+      'classes/CheckoutTests/CheckoutTests.cls',
+      '@IsTest(SeeAllData=false)\nprivate class CheckoutTests { static void run() { new OrderHandler(); } }'
+    );
+    write('classes/Checkout/Checkout.cls', 'public class Checkout { OrderHandler handler; }');
+    write('classes/CardControllerTest/CardControllerTest.cls', '@isTest private class CardControllerTest {}');
+    index = await scanProject(projectRoot);
+
+    expect(await findCoveringTests(index, ['OrderHandler'])).to.deep.equal(['CheckoutTests', 'OrderHandlerTest']);
+  });
+});
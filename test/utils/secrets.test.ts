@@ -0,0 +1,97 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { expect } from 'chai';
+import {
+  assertPrivateFile,
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  writePrivateFile,
+} from '../../src/utils/secrets.js';
+import { AUTH_KEY_FILE_PATH } from '../../src/utils/constants.js';
+import { useTemporaryAuthFiles } from '../helpers/auth.js';
+
+const modeOf = (file: string): number => fs.statSync(file).mode & 0o777;
+
+async function expectRejection(promise: Promise<unknown>, message: string | RegExp): Promise<void> {
+  try {
+    await promise;
+    expect.fail('should have thrown');
+  } catch (error) {
+    expect((error as Error).message).to.match(typeof message === 'string' ? new RegExp(message) : message);
+  }
+}
+
+describe('secrets', () => {
+  useTemporaryAuthFiles();
+
+  it('encrypts with a key created in 0600 and decrypts back', async () => {
+    const secret = await encryptSecret('my-token');
+
+    expect(isEncryptedSecret(secret)).to.equal(true);
+    expect(secret).not.to.include('my-token');
+    expect(await encryptSecret('my-token')).not.to.equal(secret);
+    expect(await decryptSecret(secret)).to.equal('my-token');
+    expect(modeOf(AUTH_KEY_FILE_PATH)).to.equal(0o600);
+  });
+
+  it('fails to decrypt with another key or once the key is gone', async () => {
+    const secret = await encryptSecret('my-token');
+
+    fs.writeFileSync(AUTH_KEY_FILE_PATH, randomBytes(32).toString('hex'), { mode: 0o600 });
+    await expectRejection(decryptSecret(secret), 'Impossible de déchiffrer le token');
+
+    fs.rmSync(AUTH_KEY_FILE_PATH);
+    await expectRejection(decryptSecret(secret), 'Impossible de déchiffrer le token');
+  });
+
+  it('rejects a malformed secret or an invalid key', async () => {
+    await expectRejection(decryptSecret('enc:v1:abc'), 'mal formé');
+
+    fs.writeFileSync(AUTH_KEY_FILE_PATH, 'abcd', { mode: 0o600 });
+    await expectRejection(encryptSecret('my-token'), 'Clé de chiffrement invalide');
+  });
+
+  describe('private files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-secrets-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes files in 0600, even over an existing file', async () => {
+      const file = path.join(dir, 'auth.json');
+      await writePrivateFile(file, '{}');
+      expect(modeOf(file)).to.equal(0o600);
+
+      fs.chmodSync(file, 0o644);
+      // Le fichier existant (0644) ne reçoit jamais le nouveau contenu : il est remplacé
+      const looseFile = path.join(dir, 'loose-link');
+      fs.linkSync(file, looseFile);
+      await writePrivateFile(file, '{"current":"default"}');
+      expect(modeOf(file)).to.equal(0o600);
+      expect(fs.readFileSync(file, 'utf-8')).to.equal('{"current":"default"}');
+      expect(fs.readFileSync(looseFile, 'utf-8')).to.equal('{}');
+      expect(fs.readdirSync(dir).sort()).to.deep.equal(['auth.json', 'loose-link']);
+    });
+
+    it('rejects files readable by the group or by everyone', async () => {
+      const file = path.join(dir, 'auth.json');
+      fs.writeFileSync(file, '{}');
+
+      for (const mode of [0o640, 0o604]) {
+        fs.chmodSync(file, mode);
+        // eslint-disable-next-line no-await-in-loop
+        await expectRejection(assertPrivateFile(file), `chmod 600 ${file}`);
+      }
+      fs.chmodSync(file, 0o600);
+      await assertPrivateFile(file);
+    });
+  });
+});